@@ -0,0 +1,85 @@
+import type { ActionStatus, StoreActionStatus } from './types';
+import { StateStore } from './state-store';
+
+const idleStatus: ActionStatus = { status: 'idle', pendingCount: 0 };
+
+/**
+ * Keeps track of the status of async actions.
+ *
+ * @param onError Optional, called when an action throws. When provided
+ * the error isn't thrown again.
+ * @returns `track` for running an action while updating its status,
+ * along with `getActionStatus` and the store keeping the statuses.
+ */
+export const createActionStatus = <ActionName extends string>(
+  onError?: (
+    error: unknown,
+    action: { name: ActionName; payload: unknown[] },
+  ) => void,
+): Omit<StoreActionStatus<ActionName>, 'useActionStatus'> & {
+  statusStore: StateStore<
+    'actionStatus',
+    Partial<Record<ActionName, ActionStatus>>
+  >;
+  track: <T>(
+    name: ActionName,
+    payload: unknown[],
+    action: () => Promise<T>,
+    signal?: AbortSignal,
+  ) => Promise<T | undefined>;
+} => {
+  //
+  const statusStore = new StateStore(
+    'actionStatus',
+    {} as Partial<Record<ActionName, ActionStatus>>,
+  );
+
+  const getActionStatus = (name: ActionName) =>
+    statusStore.getState()[name] ?? idleStatus;
+
+  const setStatus = (
+    name: ActionName,
+    update: (status: ActionStatus) => ActionStatus,
+  ) => {
+    statusStore.updateState({
+      ...statusStore.getState(),
+      [name]: update(getActionStatus(name)),
+    });
+  };
+
+  const track = async <T>(
+    name: ActionName,
+    payload: unknown[],
+    action: () => Promise<T>,
+    signal?: AbortSignal,
+  ) => {
+    setStatus(name, (status) => ({
+      ...status,
+      status: 'pending',
+      pendingCount: status.pendingCount + 1,
+    }));
+
+    try {
+      const result = await action();
+      // Cancelled calls go back to idle instead of succeeding.
+      const settledStatus = signal?.aborted ? 'idle' : 'success';
+      setStatus(name, ({ pendingCount }) => ({
+        status: pendingCount > 1 ? 'pending' : settledStatus,
+        pendingCount: pendingCount - 1,
+      }));
+      return result;
+    } catch (error) {
+      setStatus(name, ({ pendingCount }) => ({
+        status: pendingCount > 1 ? 'pending' : 'error',
+        error,
+        pendingCount: pendingCount - 1,
+      }));
+      if (!onError) {
+        throw error;
+      }
+      onError(error, { name, payload });
+    }
+  };
+
+  return { track, getActionStatus, statusStore };
+};
@@ -0,0 +1,116 @@
+import type { StateStore } from './state-store';
+import type { Store } from './types';
+
+interface Transaction {
+  /** Snapshot of each store updated in the transaction before its update. */
+  updatedStores: Map<StateStore, Store>;
+  /** Called in reverse order if the transaction is rolled back. */
+  rollbacks: (() => void)[];
+}
+
+let batchDepth = 0;
+// Snapshot of each store updated in the batch from before its first update.
+const batchedStores = new Map<StateStore, Store>();
+// The running transactions, innermost last.
+const transactions: Transaction[] = [];
+
+/** Whether listeners should be notified after the batch finishes. */
+export const isBatching = () => batchDepth > 0;
+
+/**
+ * Defers notifying the listeners of a store until the outermost
+ * batch finishes.
+ * @param stateStore The store that was updated.
+ * @param oldSnapshot The snapshot of the store before the update.
+ */
+export const addToBatch = (stateStore: StateStore, oldSnapshot: Store) => {
+  [
+    batchedStores,
+    ...transactions.map(({ updatedStores }) => updatedStores),
+  ].forEach((updatedStores) => {
+    if (!updatedStores.has(stateStore)) {
+      updatedStores.set(stateStore, oldSnapshot);
+    }
+  });
+};
+
+/**
+ * Registers a function that undoes a change made outside of the
+ * stores, e.g. to the history of a store, if the running transaction
+ * is rolled back. Does nothing outside of a transaction.
+ */
+export const onRollback = (rollback: () => void) => {
+  transactions[transactions.length - 1]?.rollbacks.push(rollback);
+};
+
+const notifyBatchedStores = () => {
+  const updatedStores = [...batchedStores];
+  batchedStores.clear();
+  updatedStores.forEach(([stateStore, oldSnapshot]) => {
+    // Stores rolled back by a transaction haven't changed.
+    if (stateStore.getSnapshot() !== oldSnapshot) {
+      stateStore.notify(oldSnapshot);
+    }
+  });
+};
+
+/**
+ * Runs `fn` and notifies the listeners of every store updated inside
+ * of it once, after the outermost batch finishes. Works across any
+ * number of stores.
+ *
+ * `fn` must be synchronous, updates made after it returns aren't
+ * part of the batch.
+ *
+ * @returns The value returned by `fn`.
+ *
+ * @example
+ * batch(() => {
+ *   actions.setName('name');
+ *   actions.increment();
+ *   otherStoreActions.reset();
+ * });
+ */
+export const batch = <T>(fn: () => T): T => {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      notifyBatchedStores();
+    }
+  }
+};
+
+/**
+ * Same as `batch` but if `fn` throws, every store updated inside of
+ * it is set back to the state it had before the transaction without
+ * notifying any listeners. The error is thrown again. Steps recorded
+ * by `options.history` are rolled back as well.
+ *
+ * Middleware still sees the actions made before the error.
+ *
+ * @returns The value returned by `fn`.
+ */
+export const transaction = <T>(fn: () => T): T =>
+  batch(() => {
+    const current: Transaction = { updatedStores: new Map(), rollbacks: [] };
+    transactions.push(current);
+    try {
+      const result = fn();
+      transactions.pop();
+      // Undone as well if an outer transaction is rolled back.
+      transactions[transactions.length - 1]?.rollbacks.push(
+        ...current.rollbacks,
+      );
+      return result;
+    } catch (error) {
+      transactions.pop();
+      current.updatedStores.forEach((snapshot, stateStore) => {
+        stateStore.restore(snapshot);
+      });
+      current.rollbacks.reverse().forEach((rollback) => rollback());
+      throw error;
+    }
+  });
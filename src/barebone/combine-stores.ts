@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  EqualityFn,
+  SnapshotStore,
+  Store,
+  StoreChangeListener,
+} from './types';
+import type { StateStore } from './state-store';
+import { createUseStoreHook } from './use-store';
+
+/** Turns a union of types into an intersection of those types. */
+type UnionToIntersection<U> = (
+  U extends any ? (value: U) => void : never
+) extends (value: infer I) => void
+  ? I
+  : never;
+
+/** The combined store of a list of stores. */
+export type CombinedStore<Stores extends { stateStore: StateStore }[]> =
+  UnionToIntersection<
+    Stores[number]['stateStore']['store']
+  > extends infer S extends Store
+    ? S
+    : never;
+
+/**
+ * Joins the snapshots of multiple stores into one snapshot. The
+ * combined snapshot only changes when one of the stores changes.
+ */
+export class CombinedStateStore<S extends Store = Store>
+  implements SnapshotStore<S>
+{
+  stateStores: StateStore[];
+  store: S;
+  snapshot?: { snapshots: Store[]; store: S };
+  serverSnapshot?: { snapshots: Store[]; store: S };
+
+  constructor(stateStores: StateStore[]) {
+    this.stateStores = stateStores;
+    this.store = {} as S;
+    // The store always reflects the latest state of each store.
+    stateStores.forEach((stateStore) => {
+      Object.defineProperty(this.store, stateStore.stateName, {
+        get: () => stateStore.getState(),
+        enumerable: true,
+      });
+    });
+  }
+
+  /**
+   * Subscribe to updates from every store and return the
+   * unsubscribe function.
+   */
+  subscribe(storeChangeListener: StoreChangeListener<S>) {
+    const listener = () => storeChangeListener(this.getSnapshot());
+    const unsubscribes = this.stateStores.map((stateStore) =>
+      stateStore.subscribe(listener),
+    );
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe && unsubscribe());
+    };
+  }
+
+  /** Combine the snapshots, reusing the last result if none changed. */
+  combine(
+    snapshots: Store[],
+    lastSnapshot?: { snapshots: Store[]; store: S },
+  ): { snapshots: Store[]; store: S } {
+    if (
+      lastSnapshot &&
+      snapshots.every((snapshot, i) => snapshot === lastSnapshot.snapshots[i])
+    ) {
+      return lastSnapshot;
+    }
+    return { snapshots, store: Object.assign({}, ...snapshots) };
+  }
+
+  getSnapshot() {
+    this.snapshot = this.combine(
+      this.stateStores.map((stateStore) => stateStore.getSnapshot()),
+      this.snapshot,
+    );
+    return this.snapshot.store;
+  }
+
+  getServerSnapshot() {
+    this.serverSnapshot = this.combine(
+      this.stateStores.map((stateStore) => stateStore.getServerSnapshot()),
+      this.serverSnapshot,
+    );
+    return this.serverSnapshot.store;
+  }
+}
+
+/**
+ * Combines multiple stores so their states can be selected together
+ * from a single hook.
+ *
+ * @param stores Stores returned from `createStore`.
+ * @returns { useStore, store }
+ *
+ * @example
+ * const { useStore } = combineStores(counterStore, userStore);
+ *
+ * // Inside a component.
+ * const [count, userName] = useStore((store) => [
+ *   store.counter.count,
+ *   store.user.name,
+ * ]);
+ */
+export const combineStores = <Stores extends { stateStore: StateStore }[]>(
+  ...stores: Stores
+) => {
+  const combinedStore = new CombinedStateStore<CombinedStore<Stores>>(
+    stores.map(({ stateStore }) => stateStore),
+  );
+  const useStoreSelect = createUseStoreHook(combinedStore);
+
+  /**
+   * Hook use for accessing the combined store.
+   * @param select Function that accepts the combined store as argument
+   * and can be use to narrow down what is returned from the store.
+   * @param equalFn Optional function to determine if the local state
+   * should be updated when any of the stores update.
+   */
+  const useStore = <
+    StoreSelect extends (
+      store: CombinedStore<Stores>,
+    ) => ReturnType<StoreSelect>,
+  >(
+    select: StoreSelect,
+    equalFn?: EqualityFn<CombinedStore<Stores>>,
+  ): ReturnType<StoreSelect> => useStoreSelect(select, equalFn);
+
+  return { useStore, store: combinedStore.store };
+};
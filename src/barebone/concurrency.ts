@@ -0,0 +1,116 @@
+import type { ConcurrencyPolicy } from './types';
+
+type Task = (signal: AbortSignal) => Promise<void>;
+
+/**
+ * Creates a runner for the calls of an async action that applies
+ * the concurrency policy of the action.
+ *
+ * Each call that runs gets its own `AbortSignal`, calls that are
+ * ignored or replaced while waiting resolve without running.
+ *
+ * @param policy How calls made while a previous call is still
+ * running are handled, defaults to `'takeEvery'`.
+ * @returns `run` for calling the action and `abort` for cancelling
+ * the running and waiting calls.
+ */
+export const createAsyncActionRunner = (
+  policy: ConcurrencyPolicy = 'takeEvery',
+) => {
+  const controllers = new Set<AbortController>();
+  // Incremented on abort so queued calls know they were cancelled.
+  let abortCount = 0;
+  let queue = Promise.resolve();
+  let queueLength = 0;
+  let lastRunAt = -Infinity;
+  let debounced:
+    | { timeout: ReturnType<typeof setTimeout>; resolve: () => void }
+    | undefined;
+
+  const start = async (task: Task) => {
+    const controller = new AbortController();
+    controllers.add(controller);
+    try {
+      await task(controller.signal);
+    } finally {
+      controllers.delete(controller);
+    }
+  };
+
+  const cancelDebounced = () => {
+    if (debounced) {
+      clearTimeout(debounced.timeout);
+      debounced.resolve();
+      debounced = undefined;
+    }
+  };
+
+  const abort = () => {
+    abortCount++;
+    cancelDebounced();
+    controllers.forEach((controller) => controller.abort());
+  };
+
+  const run = (task: Task): Promise<void> => {
+    if (typeof policy === 'object') {
+      if ('debounce' in policy) {
+        cancelDebounced();
+        return new Promise((resolve, reject) => {
+          const timeout = setTimeout(() => {
+            debounced = undefined;
+            start(task).then(resolve, reject);
+          }, policy.debounce);
+          debounced = { timeout, resolve };
+        });
+      }
+      const now = Date.now();
+      if (now - lastRunAt < policy.throttle) {
+        return Promise.resolve();
+      }
+      lastRunAt = now;
+      return start(task);
+    }
+
+    switch (policy) {
+      case 'takeLatest':
+        abort();
+        return start(task);
+      case 'takeFirst':
+      case 'exhaust':
+        return controllers.size ? Promise.resolve() : start(task);
+      case 'queue':
+      case 'serial': {
+        // Start right away when nothing is running or waiting.
+        const queuedAt = abortCount;
+        const result =
+          queueLength === 0
+            ? start(task)
+            : queue.then(() =>
+                queuedAt === abortCount ? start(task) : undefined,
+              );
+        queueLength++;
+        queue = result
+          .catch(() => undefined)
+          .finally(() => {
+            queueLength--;
+          });
+        return result;
+      }
+      default:
+        return start(task);
+    }
+  };
+
+  return { run, abort };
+};
+
+/**
+ * Returns a promise that rejects with the reason of the signal
+ * once it's aborted.
+ */
+export const whenAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), {
+      once: true,
+    });
+  });
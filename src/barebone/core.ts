@@ -0,0 +1,69 @@
+// Everything that doesn't depend on React, exported as `./vanilla` so
+// stores can be used in workers and scripts without loading React.
+export { createVanillaStore } from './vanilla';
+export { batch, transaction } from './batch';
+export { createDraft, draft, draftAsync, produce } from './draft';
+export { StoreRegistry, storeRegistry } from './registry';
+export { logger, timing } from './middleware';
+export {
+  createLocalStorage,
+  createMemoryStorage,
+  createSessionStorage,
+} from './persist';
+export { createSelector } from './selectors';
+export { applyPatches, createPatches } from './patches';
+export { replay } from './recorder';
+export { createLoopbackServer } from './remote';
+export { toObservable, toReadable } from './subscribe';
+export { schema } from './schema';
+export { StateValidationError } from './validate';
+export { ActionTypes } from './types';
+export type { InferSchema, Schema } from './schema';
+export type { MemoryTransport } from './remote';
+export type { StoreRegistryOptions } from './registry';
+export type { Observable, Observer, Readable, Subscription } from './subscribe';
+export type {
+  ActionContext,
+  ActionLog,
+  ActionStatus,
+  ComputedOptions,
+  ComputedValues,
+  ConcurrencyPolicy,
+  DevtoolsOptions,
+  GetState,
+  HistoryOptions,
+  HistoryStatus,
+  InvalidStateHandler,
+  Middleware,
+  OptimisticAsyncAction,
+  Patch,
+  PatchListener,
+  PersistOptions,
+  PersistStorage,
+  PersistedState,
+  Reaction,
+  ReactionContext,
+  ReactionEffect,
+  RecordedAction,
+  ReplayOptions,
+  RemoteClientMessage,
+  RemoteOperation,
+  RemoteOptions,
+  RemoteServerMessage,
+  RemoteTransport,
+  ReplayResult,
+  Selector,
+  StateValidator,
+  StoreActionStatus,
+  StoreHistory,
+  StorePersistence,
+  StoreRecorder,
+  StoreSubscribe,
+  StoreWatch,
+  SubscribeOptions,
+  SyncConflictResolver,
+  SyncMessage,
+  SyncOptions,
+  VanillaStoreResult,
+  WatchOptions,
+} from './types';
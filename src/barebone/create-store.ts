@@ -1,17 +1,21 @@
-import { useEffect, useRef, useState } from 'react';
 import type {
   Actions,
   StoreOptions,
   Store,
-  EqualityFn,
-  StoreActions,
   AsyncActions,
   CreateStoreResult,
-  UseStoreHook,
-  CreateActionsResult,
+  ComputedOptions,
+  ComputedValues,
 } from './types';
-import { ActionTypes } from './types';
-import { StateStore } from './state-store';
+import { createStoreCore } from './vanilla';
+import {
+  createStatusHook,
+  createUseStoreHook,
+  createUseTrackedStoreHook,
+} from './use-store';
+
+export { createActions } from './vanilla';
+export { createUseStoreHook };
 
 /**
  * Creates a store for keeping track and manipulating a state
@@ -24,13 +28,65 @@ import { StateStore } from './state-store';
  * any number of additional params for passing in additional data.
  *
  * Actions must return a new state instead of mutating the existing
- * state.
+ * state, or be wrapped with `draft` to mutate a draft of the state.
  *
  * @param options.asyncActions Optional, async actions. Unlike synchronous
  * actions the state is access through the result of a function call. Other
  * than that both types of actions works the same way.
  *
- * @returns { useStore, actions, asyncActions, store }
+ * An async action can also be an object with `optimistic`, `run` and
+ * `commit` for applying an optimistic state that's rolled back if
+ * `run` fails.
+ *
+ * @param options.concurrency Optional, how each async action handles
+ * being called while a previous call is still running.
+ *
+ * @param options.middleware Optional, functions that are called in order
+ * with every action before the state is committed to the store.
+ *
+ * @param options.devtools Optional, connect the store to the Redux
+ * DevTools extension.
+ *
+ * @param options.history Optional, keep track of past states so updates
+ * can be undone and redone.
+ *
+ * @param options.persist Optional, save the state to a storage and
+ * restore it when the store is created.
+ *
+ * @param options.sync Optional, keep the state in sync with other tabs.
+ *
+ * @param options.remote Optional, keep the state in sync with a server.
+ *
+ * @param options.record Optional, record every action so it can be
+ * exported and replayed.
+ *
+ * @param options.computed Optional, values derived from the state.
+ *
+ * @param options.onPatches Optional, called with the JSON Patches of
+ * every update of the state.
+ *
+ * @param options.reactions Optional, side effects that run when part
+ * of the store changes.
+ *
+ * @param options.registry Optional, registry the store is added to,
+ * `true` for the global `storeRegistry`.
+ *
+ * @param options.validate Optional, function or schema every state
+ * returned by an action is checked with before it's committed.
+ *
+ * @param options.onInvalidState Optional, what to do when an action
+ * returns an invalid state. Defaults to `'throw'`.
+ *
+ * @param options.freeze Optional, deep freeze the state so mutating it
+ * throws. Defaults to `true` in development builds.
+ *
+ * @param options.onError Optional, called when an async action throws.
+ *
+ * @returns { useStore, useTrackedStore, subscribe, actions, asyncActions,
+ * abortAsyncAction, store, computed, stateStore, unregister, getActionStatus,
+ * useActionStatus, undo, redo, clearHistory, groupHistory, useHistory,
+ * hasHydrated, useHydrated, clearPersistedState, getActionLog,
+ * exportActionLog, clearActionLog, watch, onPatches, applyPatches }
  *
  *
  * @example
@@ -64,154 +120,47 @@ export const createStore = <
   State,
   ActionOption extends Actions<State>,
   AsyncActionOptions extends AsyncActions<State>,
-  SelectFn extends (state: Store<Name, State>) => ReturnType<SelectFn>,
+  Computed extends ComputedOptions<State>,
+  SelectFn extends (
+    state: Store<Name, State>,
+    computed: ComputedValues<Computed>,
+  ) => ReturnType<SelectFn>,
 >(
-  options: StoreOptions<State, Name, ActionOption, AsyncActionOptions>,
+  options: StoreOptions<
+    State,
+    Name,
+    ActionOption,
+    AsyncActionOptions,
+    Computed
+  >,
 ): CreateStoreResult<
   State,
   Name,
   SelectFn,
   ActionOption,
-  AsyncActionOptions
+  AsyncActionOptions,
+  Computed
 > => {
   //
-  const stateStore = new StateStore(options.name, options.initialState);
-
-  const storeActions = createActions(
-    stateStore,
-    options.actions,
-    options.asyncActions,
-  );
+  const {
+    vanillaStore,
+    getComputed,
+    actionStatusStore,
+    historyStatusStore,
+    persistStatusStore,
+  } = createStoreCore(options);
 
-  const useStore = createUseStoreHook(stateStore);
-
-  return { useStore, store: stateStore.store, ...storeActions };
-};
-
-/**
- * Creates a custom hook that can be used inside react components to
- * retrieve the store state.
- *
- * @param stateStore The store the hooks is accessing.
- */
-export const createUseStoreHook = <
-  StoreInstance extends StateStore,
-  SelectFn extends (state: StoreInstance['store']) => ReturnType<SelectFn>,
->(
-  stateStore: StoreInstance,
-): UseStoreHook<StoreInstance['store'], SelectFn> => {
-  /**
-   * A Hook use for accessing the state of the store.
-   *
-   * @param select Function that takes the store state as the argument
-   * and can be use to narrow down the value returned.
-   *
-   * @param equalFn Function that is called when the store updates. Use
-   * to decide if the local state should be updated as well. The new state
-   * and the old state are available as the first and second param.
-   */
-  const useStoreSelect = <
-    T extends (state: StoreInstance['store']) => ReturnType<T>,
-  >(
-    select: T,
-    equalFn?: EqualityFn<StoreInstance['store']>,
-  ): ReturnType<T> => {
-    // Serialise a local copy so changes in the main store wont be reflected
-    // locally when component rerenders unless an updated is requested.
-    const [storeState, setStoreState] = useState<StoreInstance['store']>(
-      JSON.parse(JSON.stringify(stateStore.getStore())),
-    );
-
-    const updateCheckFn = useRef<EqualityFn<StoreInstance['store']>>();
-    updateCheckFn.current = equalFn;
-
-    useEffect(() => {
-      const unsubscribe = stateStore.subscribe(
-        setStoreState,
-        (newState, oldState) => {
-          if (updateCheckFn.current) {
-            return updateCheckFn.current(newState, oldState);
-          }
-          return defaultStoreUpdateCheck(select(oldState), select(newState));
-        },
-      );
-      // Remove the listener from the store when component unmounts.
-      return () => {
-        unsubscribe && unsubscribe();
-      };
-      // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
-    return select(storeState);
+  return {
+    ...vanillaStore,
+    useStore: createUseStoreHook(vanillaStore.stateStore, getComputed),
+    useTrackedStore: createUseTrackedStoreHook(vanillaStore.stateStore),
+    useActionStatus: createStatusHook(
+      actionStatusStore,
+      vanillaStore.getActionStatus,
+    ),
+    useHistory: createStatusHook(historyStatusStore, () =>
+      historyStatusStore.getState(),
+    ),
+    useHydrated: createStatusHook(persistStatusStore, vanillaStore.hasHydrated),
   };
-
-  return useStoreSelect;
-};
-
-/**
- * Default logic for checking if local state should be updated
- * when the store updates.
- */
-const defaultStoreUpdateCheck = <SelectFnResult>(
-  oldStoreResult: SelectFnResult,
-  newStoreResult: SelectFnResult,
-): boolean => {
-  // When the hook select function returns an array, only one
-  // element needs to be different.
-  if (Array.isArray(oldStoreResult) && Array.isArray(newStoreResult)) {
-    let shouldUpdate = false;
-    for (let i = 0; i < oldStoreResult.length; i++) {
-      if (oldStoreResult[i] !== newStoreResult[i]) {
-        shouldUpdate = true;
-        break;
-      }
-    }
-    return shouldUpdate;
-  } else {
-    return oldStoreResult !== newStoreResult;
-  }
-};
-
-/**
- * @param stateStore Object keeping track of state and listeners.
- * @param actions Synchronous actions.
- * @param asyncActions Async actions.
- * @returns Object containing the sync and async actions for the store.
- */
-export const createActions = <
-  UserDefinedActions extends Actions,
-  UserDefinedAsyncActions extends AsyncActions,
-  StoreInstance extends StateStore,
->(
-  stateStore: StoreInstance,
-  actionsOption?: UserDefinedActions,
-  asyncActionsOption?: UserDefinedAsyncActions,
-): CreateActionsResult<UserDefinedActions, UserDefinedAsyncActions> => {
-  //
-  const actions = {} as StoreActions<UserDefinedActions, ActionTypes.sync>;
-  const asyncActions = {} as StoreActions<
-    UserDefinedAsyncActions,
-    ActionTypes.async
-  >;
-
-  // Create the sync actions.
-  for (const key in actionsOption) {
-    actions[key] = (...payload: unknown[]) => {
-      stateStore.updateState(
-        actionsOption[key](stateStore.getState(), ...payload),
-      );
-    };
-  }
-  // Create the async actions.
-  for (const key in asyncActionsOption) {
-    asyncActions[key] = async (...payload: unknown[]) => {
-      stateStore.updateState(
-        await asyncActionsOption[key](
-          stateStore.getState.bind(stateStore),
-          ...payload,
-        ),
-      );
-    };
-  }
-
-  return { actions, asyncActions };
 };
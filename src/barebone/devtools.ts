@@ -0,0 +1,125 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  Actions,
+  AsyncActions,
+  DevtoolsOptions,
+  Middleware,
+} from './types';
+import type { StateStore } from './state-store';
+
+/**
+ * Message sent from the extension to the connected store.
+ */
+interface DevtoolsMessage {
+  type: string;
+  payload?: {
+    type: string;
+    nextLiftedState?: {
+      computedStates: { state: unknown }[];
+      currentStateIndex?: number;
+    };
+  };
+  state?: string;
+}
+
+/**
+ * Connection to a single instance in the extension.
+ */
+export interface DevtoolsConnection {
+  init(state: unknown): void;
+  send(action: { type: string; [key: string]: any } | null, state: any): void;
+  subscribe(listener: (message: DevtoolsMessage) => void): (() => void) | void;
+  unsubscribe?(): void;
+}
+
+export interface DevtoolsExtension {
+  connect(options: { name?: string }): DevtoolsConnection;
+}
+
+declare global {
+  interface Window {
+    __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension;
+  }
+}
+
+/**
+ * Connects the store to the Redux DevTools extension and returns
+ * a middleware that reports every action to it.
+ *
+ * Returns undefined when the extension isn't available.
+ *
+ * @param stateStore The store being connected.
+ * @param options.name Name of the instance shown in the extension.
+ */
+export const connectDevtools = <
+  State,
+  ActionsSync extends Actions<State>,
+  ActionsAsync extends AsyncActions<State>,
+>(
+  stateStore: StateStore<string, State>,
+  options: DevtoolsOptions = {},
+): Middleware<State, ActionsSync, ActionsAsync> | undefined => {
+  const extension =
+    typeof window !== 'undefined'
+      ? window.__REDUX_DEVTOOLS_EXTENSION__
+      : undefined;
+  if (!extension) {
+    return;
+  }
+
+  const initialState = stateStore.getState();
+  const connection = extension.connect({
+    name: options.name ?? stateStore.stateName,
+  });
+  connection.init(initialState);
+
+  connection.subscribe((message) => {
+    if (message.type !== 'DISPATCH' || !message.payload) {
+      return;
+    }
+    switch (message.payload.type) {
+      // Time travelling, the state is sent as a JSON string.
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        if (message.state !== undefined) {
+          stateStore.updateState(JSON.parse(message.state));
+        }
+        break;
+      // Importing a history of actions from a file.
+      case 'IMPORT_STATE': {
+        const liftedState = message.payload.nextLiftedState;
+        if (!liftedState) {
+          break;
+        }
+        const { computedStates, currentStateIndex } = liftedState;
+        const current =
+          computedStates[currentStateIndex ?? computedStates.length - 1];
+        if (current) {
+          stateStore.updateState(current.state as State);
+        }
+        connection.send(null, liftedState);
+        break;
+      }
+      // Make the current state the starting point in the extension.
+      case 'COMMIT':
+        connection.init(stateStore.getState());
+        break;
+      case 'RESET':
+        stateStore.updateState(initialState);
+        connection.init(initialState);
+        break;
+    }
+  });
+
+  const devtoolsMiddleware: Middleware<State, ActionsSync, ActionsAsync> = (
+    context,
+    next,
+  ) => {
+    next(context.nextState);
+    connection.send(
+      { type: context.name, payload: context.payload },
+      stateStore.getState(),
+    );
+  };
+  return devtoolsMiddleware;
+};
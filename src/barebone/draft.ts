@@ -0,0 +1,284 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { GetState } from './types';
+import { isPlainObject } from './structural-sharing';
+import { applyPatches, createPatches } from './patches';
+
+const DRAFT_STATE = Symbol('draftState');
+
+type Draftable = Record<PropertyKey, any> | any[];
+
+interface DraftState {
+  /** The value the draft was created from, it's never changed. */
+  base: Draftable;
+  /**
+   * Shallow copy of `base` holding the changes and child drafts,
+   * created the first time a child is read or the draft is changed.
+   */
+  copy?: Draftable;
+  /** Whether the draft or any of its children have been changed. */
+  isModified: boolean;
+  parent?: DraftState;
+}
+
+const isDraftable = (value: unknown): value is Draftable =>
+  isPlainObject(value) || Array.isArray(value);
+
+const getDraftState = (value: unknown): DraftState | undefined =>
+  (value as any)?.[DRAFT_STATE];
+
+const shallowCopy = (value: Draftable) =>
+  Array.isArray(value) ? [...value] : { ...value };
+
+const getSource = (state: DraftState) => state.copy ?? state.base;
+
+const getCopy = (state: DraftState) => {
+  if (!state.copy) {
+    state.copy = shallowCopy(state.base);
+  }
+  return state.copy as Record<PropertyKey, any>;
+};
+
+// Marks the draft and every parent as modified.
+const markModified = (state: DraftState) => {
+  let current: DraftState | undefined = state;
+  while (current && !current.isModified) {
+    current.isModified = true;
+    getCopy(current);
+    current = current.parent;
+  }
+};
+
+const createProxy = (
+  base: Draftable,
+  revokes: (() => void)[],
+  parent?: DraftState,
+): Draftable => {
+  const state: DraftState = { base, isModified: false, parent };
+  const { proxy, revoke } = Proxy.revocable(Array.isArray(base) ? [] : {}, {
+    get(_, property) {
+      if (property === DRAFT_STATE) {
+        return state;
+      }
+      const source = getSource(state) as Record<PropertyKey, any>;
+      const value = source[property];
+      if (
+        !Object.prototype.hasOwnProperty.call(source, property) ||
+        !isDraftable(value) ||
+        // Values assigned to the draft aren't drafted.
+        value !== (state.base as Record<PropertyKey, any>)[property]
+      ) {
+        return value;
+      }
+      const draft: Draftable = createProxy(value, revokes, state);
+      getCopy(state)[property] = draft;
+      return draft;
+    },
+    set(_, property, value) {
+      const source = getSource(state) as Record<PropertyKey, any>;
+      const isUnchanged =
+        Object.prototype.hasOwnProperty.call(source, property) &&
+        Object.is(source[property], value);
+      if (!isUnchanged) {
+        markModified(state);
+        getCopy(state)[property] = value;
+      }
+      return true;
+    },
+    deleteProperty(_, property) {
+      if (Object.prototype.hasOwnProperty.call(getSource(state), property)) {
+        markModified(state);
+        delete getCopy(state)[property];
+      }
+      return true;
+    },
+    has(_, property) {
+      return property in getSource(state);
+    },
+    ownKeys() {
+      return Reflect.ownKeys(getSource(state));
+    },
+    getOwnPropertyDescriptor(_, property) {
+      const source = getSource(state);
+      const descriptor = Reflect.getOwnPropertyDescriptor(source, property);
+      if (!descriptor) {
+        return descriptor;
+      }
+      return {
+        writable: true,
+        // The length of the array target can't be reported as configurable.
+        configurable: !Array.isArray(source) || property !== 'length',
+        enumerable: descriptor.enumerable,
+        value: (source as Record<PropertyKey, any>)[property],
+      };
+    },
+    defineProperty() {
+      throw new Error('Object.defineProperty() is not supported on drafts.');
+    },
+    getPrototypeOf() {
+      return Object.getPrototypeOf(state.base);
+    },
+    setPrototypeOf() {
+      throw new Error('Object.setPrototypeOf() is not supported on drafts.');
+    },
+  });
+  revokes.push(revoke);
+  return proxy;
+};
+
+/**
+ * Replaces every draft in a value with its final state. Unchanged
+ * drafts are replaced with the value they were created from.
+ */
+const finalize = (value: unknown, visited: WeakSet<object>): unknown => {
+  const state = getDraftState(value);
+  if (state) {
+    if (!state.isModified) {
+      return state.base;
+    }
+    const copy = state.copy as Record<PropertyKey, any>;
+    for (const key of Object.keys(copy)) {
+      copy[key] = finalize(copy[key], visited);
+    }
+    return copy;
+  }
+  // New values assigned to a draft might contain drafts.
+  if (isDraftable(value) && !visited.has(value)) {
+    visited.add(value);
+    const object = value as Record<PropertyKey, any>;
+    for (const key of Object.keys(object)) {
+      const child = object[key];
+      const finalChild = finalize(child, visited);
+      if (finalChild !== child) {
+        object[key] = finalChild;
+      }
+    }
+  }
+  return value;
+};
+
+/**
+ * Creates a draft of a state that can be mutated freely, the state
+ * itself is never changed.
+ *
+ * Only plain objects and arrays are drafted, other values are
+ * returned as they are.
+ *
+ * @returns The draft and `finish` for creating the next state from
+ * the draft. Pass the value returned by a recipe to `finish` to use
+ * it instead of the draft. The draft can't be used after `finish`
+ * is called.
+ */
+export const createDraft = <State>(base: State) => {
+  const revokes: (() => void)[] = [];
+  const draft = (
+    isDraftable(base) ? createProxy(base, revokes) : base
+  ) as State;
+
+  const finish = (result?: unknown): State => {
+    const nextState = finalize(
+      result === undefined ? draft : result,
+      new WeakSet(),
+    ) as State;
+    revokes.forEach((revoke) => revoke());
+    return nextState;
+  };
+
+  return { draft, finish };
+};
+
+/**
+ * Creates the next state by calling `recipe` with a draft of the
+ * state. Parts of the state that weren't changed keep their identity.
+ *
+ * `recipe` can either mutate the draft or return a new state.
+ *
+ * @example
+ * const nextState = produce(state, (draft) => {
+ *   draft.todos.push({ title: 'Buy milk', done: false });
+ * });
+ */
+export const produce = <State>(
+  base: State,
+  recipe: (draft: State) => State | void,
+): State => {
+  const { draft, finish } = createDraft(base);
+  return finish(recipe(draft));
+};
+
+/**
+ * Creates a sync action that receives a draft of the state instead
+ * of the state. The draft can be mutated freely, the next state is
+ * created from the changes made to it.
+ *
+ * @example
+ * {
+ *   actions: {
+ *     addTodo: draft((state, title: string) => {
+ *       state.todos.push({ title, done: false });
+ *     }),
+ *   },
+ * }
+ */
+export const draft =
+  <State, Payload extends any[]>(
+    action: (draft: State, ...payload: Payload) => State | void,
+  ) =>
+  (state: State, ...payload: Payload): State =>
+    produce(state, (draft) => action(draft, ...payload));
+
+/**
+ * Creates an async action where `getState` returns a draft of the
+ * current state. The next state is created from the draft returned
+ * by the last call to `getState`, so call it after awaiting.
+ *
+ * When the state changed since the last call, the changes made to the
+ * previous draft are replayed onto the new draft as patches. Throws if
+ * they can't be applied, e.g. when a changed item has been removed.
+ *
+ * @example
+ * {
+ *   asyncActions: {
+ *     loadTodos: draftAsync(async (getState, url: string) => {
+ *       const todos = await fetchTodos(url);
+ *       getState().todos = todos;
+ *     }),
+ *   },
+ * }
+ */
+export const draftAsync =
+  <State, Payload extends any[]>(
+    action: (
+      getState: GetState<State>,
+      ...payload: Payload
+    ) => Promise<State | void>,
+  ) =>
+  async (getState: GetState<State>, ...payload: Payload): Promise<State> => {
+    let current:
+      | (ReturnType<typeof createDraft<State>> & { base: State })
+      | undefined;
+
+    // A new draft is only created when the state has changed, the
+    // changes made to the previous draft are replayed onto it.
+    const getDraft = Object.assign(
+      () => {
+        const base = getState();
+        if (current?.base !== base) {
+          const changes = current
+            ? createPatches(current.base, current.finish()).patches
+            : [];
+          current = {
+            ...createDraft(changes.length ? applyPatches(base, changes) : base),
+            base,
+          };
+        }
+        return current.draft;
+      },
+      { signal: getState.signal },
+    );
+
+    const result = await action(getDraft, ...payload);
+    if (!current) {
+      return result === undefined ? getState() : (result as State);
+    }
+    return current.finish(result);
+  };
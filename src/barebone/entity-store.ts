@@ -0,0 +1,244 @@
+import type { AsyncActions, Store, StoreOptions } from './types';
+import { createStore } from './create-store';
+import { createSelector } from './selectors';
+
+/** The type of the id of an entity. */
+export type EntityId = string | number;
+
+/** The state of an entity store, entities keyed by their id. */
+export interface EntityState<Entity, Id extends EntityId = EntityId> {
+  /** The id of every entity, in order. */
+  ids: Id[];
+  entities: Record<Id, Entity>;
+}
+
+/** The changes made to an entity by `updateOne`. */
+export interface EntityUpdate<Entity, Id extends EntityId = EntityId> {
+  id: Id;
+  changes: Partial<Entity>;
+}
+
+/** The actions of an entity store. */
+export type EntityActions<Entity, Id extends EntityId = EntityId> = {
+  /** Add an entity, does nothing if its id is already in the store. */
+  addOne: (
+    state: EntityState<Entity, Id>,
+    entity: Entity,
+  ) => EntityState<Entity, Id>;
+  /** Add entities, entities whose id is already in the store are skipped. */
+  addMany: (
+    state: EntityState<Entity, Id>,
+    entities: Entity[],
+  ) => EntityState<Entity, Id>;
+  /** Add entities, entities already in the store are updated instead. */
+  upsertMany: (
+    state: EntityState<Entity, Id>,
+    entities: Entity[],
+  ) => EntityState<Entity, Id>;
+  /** Update part of an entity, does nothing if it isn't in the store. */
+  updateOne: (
+    state: EntityState<Entity, Id>,
+    update: EntityUpdate<Entity, Id>,
+  ) => EntityState<Entity, Id>;
+  /** Remove the entities with the ids. */
+  removeMany: (
+    state: EntityState<Entity, Id>,
+    ids: Id[],
+  ) => EntityState<Entity, Id>;
+  /** Replace every entity in the store. */
+  setAll: (
+    state: EntityState<Entity, Id>,
+    entities: Entity[],
+  ) => EntityState<Entity, Id>;
+};
+
+export interface EntityStoreOptions<
+  Entity,
+  Name extends string,
+  Id extends EntityId = EntityId,
+> extends Omit<
+    StoreOptions<
+      EntityState<Entity, Id>,
+      Name,
+      EntityActions<Entity, Id>,
+      AsyncActions<EntityState<Entity, Id>>
+    >,
+    'initialState' | 'actions' | 'asyncActions' | 'concurrency' | 'computed'
+  > {
+  /** The entities the store starts with. */
+  initialEntities?: Entity[];
+
+  /** Returns the id of an entity. Defaults to `entity.id`. */
+  selectId?: (entity: Entity) => Id;
+
+  /**
+   * Keeps `ids` sorted by comparing the entities, the same way as
+   * `Array.prototype.sort`. Entities stay in the order they were
+   * added in when it isn't set.
+   */
+  sortComparer?: (a: Entity, b: Entity) => number;
+}
+
+const hasOwn = (object: object, key: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Creates the actions of an entity store. Entities that don't change
+ * are kept by reference, actions that don't change anything return
+ * the same state.
+ */
+const createEntityActions = <Entity, Id extends EntityId>(
+  selectId: (entity: Entity) => Id,
+  sortComparer?: (a: Entity, b: Entity) => number,
+): EntityActions<Entity, Id> => {
+  //
+  const sortIds = (ids: Id[], entities: Record<Id, Entity>) =>
+    sortComparer
+      ? ids.sort((a, b) => sortComparer(entities[a], entities[b]))
+      : ids;
+
+  const addEntities = (
+    state: EntityState<Entity, Id>,
+    newEntities: Entity[],
+    mergeExisting: boolean,
+  ) => {
+    const ids = [...state.ids];
+    const entities = { ...state.entities };
+    let hasChanged = false;
+
+    for (const entity of newEntities) {
+      const id = selectId(entity);
+      if (!hasOwn(entities, id)) {
+        ids.push(id);
+        entities[id] = entity;
+        hasChanged = true;
+      } else if (mergeExisting) {
+        entities[id] = { ...entities[id], ...entity };
+        hasChanged = true;
+      }
+    }
+    return hasChanged ? { ids: sortIds(ids, entities), entities } : state;
+  };
+
+  return {
+    addOne: (state, entity) => addEntities(state, [entity], false),
+    addMany: (state, entities) => addEntities(state, entities, false),
+    upsertMany: (state, entities) => addEntities(state, entities, true),
+    updateOne: (state, { id, changes }) => {
+      if (!hasOwn(state.entities, id)) {
+        return state;
+      }
+      const entity = { ...state.entities[id], ...changes };
+      const newId = selectId(entity);
+      const entities = { ...state.entities };
+      let ids = state.ids;
+
+      // The changes can update the id, which replaces the entity
+      // that had that id.
+      if (newId !== id) {
+        delete entities[id];
+        ids = ids.filter((other) => other !== newId);
+        ids = ids.map((other) => (other === id ? newId : other));
+      }
+      entities[newId] = entity;
+      return { ids: sortIds([...ids], entities), entities };
+    },
+    removeMany: (state, removedIds) => {
+      const removed = new Set(
+        removedIds.filter((id) => hasOwn(state.entities, id)),
+      );
+      if (!removed.size) {
+        return state;
+      }
+      const entities = { ...state.entities };
+      removed.forEach((id) => delete entities[id]);
+      return { ids: state.ids.filter((id) => !removed.has(id)), entities };
+    },
+    setAll: (_state, entities) =>
+      addEntities(
+        { ids: [], entities: {} as Record<Id, Entity> },
+        entities,
+        true,
+      ),
+  };
+};
+
+/**
+ * Creates a store for a collection of entities, e.g. records loaded
+ * from an API. The state is normalized into `ids` and `entities`
+ * keyed by id, and actions for adding, updating and removing
+ * entities are created for it.
+ *
+ * Updating an entity keeps every other entity by reference, so
+ * components selecting a single entity with `selectById` only
+ * rerender when that entity changes.
+ *
+ * Accepts the same options as `createStore` except for the state,
+ * actions and computed values.
+ *
+ * @param options.name The name associated with the store.
+ * @param options.initialEntities Optional, the entities the store
+ * starts with.
+ * @param options.selectId Optional, returns the id of an entity.
+ * Defaults to `entity.id`.
+ * @param options.sortComparer Optional, keeps the entities sorted.
+ * @returns The result of `createStore` along with the selectors
+ * `selectById`, `selectAll` and `selectTotal`.
+ *
+ * @example
+ * const { useStore, actions, selectById, selectAll } = createEntityStore({
+ *   name: 'todos',
+ *   selectId: (todo: Todo) => todo.id,
+ *   sortComparer: (a, b) => a.title.localeCompare(b.title),
+ * });
+ *
+ * actions.addMany(await api.getTodos());
+ * actions.updateOne({ id: 1, changes: { done: true } });
+ *
+ * // Inside a component.
+ * const todo = useStore((store) => selectById(store, id));
+ */
+export const createEntityStore = <
+  Entity,
+  Name extends string,
+  Id extends EntityId = EntityId,
+>({
+  initialEntities = [],
+  selectId = (entity) => (entity as { id: Id }).id,
+  sortComparer,
+  ...options
+}: EntityStoreOptions<Entity, Name, Id>) => {
+  //
+  const actions = createEntityActions(selectId, sortComparer);
+  const initialState = actions.setAll(
+    { ids: [], entities: {} as Record<Id, Entity> },
+    initialEntities,
+  );
+
+  const entityStore = createStore({
+    ...options,
+    initialState,
+    actions,
+  });
+
+  type EntityStore = Store<Name, EntityState<Entity, Id>>;
+  const name = options.name;
+
+  /** Returns the entity with the id, if it's in the store. */
+  const selectById = (store: EntityStore, id: Id): Entity | undefined =>
+    hasOwn(store[name].entities, id) ? store[name].entities[id] : undefined;
+
+  /** Returns every entity, in order. */
+  const selectAll = createSelector(
+    [
+      (store: EntityStore) => store[name].ids,
+      (store: EntityStore) => store[name].entities,
+    ],
+    (ids, entities) => ids.map((id) => entities[id]),
+  );
+
+  /** Returns the number of entities. */
+  const selectTotal = (store: EntityStore) => store[name].ids.length;
+
+  return { ...entityStore, selectById, selectAll, selectTotal };
+};
@@ -0,0 +1,172 @@
+import type {
+  Actions,
+  AsyncActions,
+  HistoryOptions,
+  HistoryStatus,
+  Middleware,
+  StoreHistory,
+} from './types';
+import { StateStore } from './state-store';
+import { onRollback } from './batch';
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Creates the undo and redo functions for a store, along with a
+ * middleware that records the state before each action.
+ *
+ * When `options` is undefined nothing is recorded and the returned
+ * functions do nothing.
+ *
+ * @param stateStore The store to keep the history for.
+ * @param options.limit Max number of past states to keep.
+ * @param options.exclude Actions that shouldn't be recorded.
+ */
+export const createHistory = <
+  State,
+  ActionsSync extends Actions<State>,
+  ActionsAsync extends AsyncActions<State>,
+>(
+  stateStore: StateStore<string, State>,
+  options?: HistoryOptions<keyof ActionsSync | keyof ActionsAsync>,
+): Omit<StoreHistory, 'useHistory'> & {
+  statusStore: StateStore<'history', HistoryStatus>;
+  bindGroup: () => (update: () => void) => void;
+  middleware?: Middleware<State, ActionsSync, ActionsAsync>;
+} => {
+  //
+  const limit = options?.limit ?? DEFAULT_HISTORY_LIMIT;
+  const excluded = new Set(options?.exclude ?? []);
+  let past: State[] = [];
+  let future: State[] = [];
+
+  // The group of the update being made, updates in the same group
+  // are recorded as one step. `past` is the history right after the
+  // group's step was recorded.
+  let currentGroup: { past?: State[] } | undefined;
+
+  const statusStore = new StateStore<'history', HistoryStatus>('history', {
+    canUndo: false,
+    canRedo: false,
+  });
+
+  const updateStatus = () => {
+    statusStore.updateState({
+      canUndo: past.length > 0,
+      canRedo: future.length > 0,
+    });
+  };
+
+  /**
+   * Replace the past and future states, the change is undone if the
+   * transaction it's made in is rolled back.
+   */
+  const setHistory = (newPast: State[], newFuture: State[]) => {
+    const lastPast = past;
+    const lastFuture = future;
+    onRollback(() => {
+      past = lastPast;
+      future = lastFuture;
+    });
+    past = newPast;
+    future = newFuture;
+  };
+
+  const record = (prevState: State) => {
+    // Add to the group's step, unless other steps were recorded or
+    // undone since.
+    if (currentGroup && currentGroup.past === past) {
+      setHistory(past, []);
+      updateStatus();
+      return;
+    }
+    setHistory([...past, prevState].slice(-limit), []);
+    if (currentGroup) {
+      currentGroup.past = past;
+    }
+    updateStatus();
+  };
+
+  const undo = () => {
+    const state = past[past.length - 1];
+    if (state === undefined) {
+      return;
+    }
+    setHistory(past.slice(0, -1), [...future, stateStore.getState()]);
+    stateStore.updateState(state);
+    updateStatus();
+  };
+
+  const redo = () => {
+    const state = future[future.length - 1];
+    if (state === undefined) {
+      return;
+    }
+    setHistory([...past, stateStore.getState()], future.slice(0, -1));
+    stateStore.updateState(state);
+    updateStatus();
+  };
+
+  const clearHistory = () => {
+    setHistory([], []);
+    updateStatus();
+  };
+
+  const groupHistory = <T>(fn: () => T): T => {
+    if (currentGroup) {
+      return fn();
+    }
+    currentGroup = {};
+    try {
+      return fn();
+    } finally {
+      currentGroup = undefined;
+    }
+  };
+
+  /**
+   * Returns a function that makes updates in the group that is open
+   * now, used by async actions so that their updates are part of the
+   * group they were called in.
+   */
+  const bindGroup = () => {
+    const group = currentGroup;
+    return (update: () => void) => {
+      const lastGroup = currentGroup;
+      currentGroup = group;
+      try {
+        update();
+      } finally {
+        currentGroup = lastGroup;
+      }
+    };
+  };
+
+  const storeHistory = {
+    undo,
+    redo,
+    clearHistory,
+    groupHistory,
+    bindGroup,
+    statusStore,
+  };
+  if (!options) {
+    return storeHistory;
+  }
+
+  const historyMiddleware: Middleware<State, ActionsSync, ActionsAsync> = (
+    context,
+    next,
+  ) => {
+    const prevState = stateStore.getState();
+    next(context.nextState);
+    // Nothing to record for excluded actions, or if the update was
+    // stopped or didn't change the state.
+    if (excluded.has(context.name) || stateStore.getState() === prevState) {
+      return;
+    }
+    record(prevState);
+  };
+
+  return { ...storeHistory, middleware: historyMiddleware };
+};
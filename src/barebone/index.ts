@@ -1 +1,15 @@
 export { createStore } from './create-store';
+export { createStoreContext } from './store-context';
+export { combineStores } from './combine-stores';
+export { createEntityStore } from './entity-store';
+export * from './core';
+export { createStoreCollector, hydrateStores, serializeState } from './ssr';
+export type { CombinedStore } from './combine-stores';
+export type {
+  EntityActions,
+  EntityId,
+  EntityState,
+  EntityStoreOptions,
+  EntityUpdate,
+} from './entity-store';
+export type { StoreCollector } from './ssr';
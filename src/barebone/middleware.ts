@@ -0,0 +1,86 @@
+import type { ActionContext, Middleware } from './types';
+import { ActionTypes } from './types';
+import type { StateStore } from './state-store';
+
+/**
+ * Creates a function that runs an action through the middleware
+ * in order before committing the state to the store.
+ *
+ * @param stateStore The store the state is committed to.
+ * @param middleware Middleware to run, in order.
+ */
+export const applyMiddleware = <Context extends ActionContext>(
+  stateStore: StateStore,
+  middleware: ((
+    context: Context,
+    next: (nextState: Context['nextState']) => void,
+  ) => void)[] = [],
+) => {
+  return (context: Context) => {
+    const run = (index: number, nextState: Context['nextState']) => {
+      if (index >= middleware.length) {
+        stateStore.updateState(nextState);
+        return;
+      }
+      middleware[index]({ ...context, nextState }, (state) =>
+        run(index + 1, state),
+      );
+    };
+    run(0, context.nextState);
+  };
+};
+
+/**
+ * Options for the logger middleware.
+ */
+export interface LoggerOptions {
+  /** Function use for logging, defaults to `console.log`. */
+  log?: (message: string, details: Omit<ActionContext, 'type'>) => void;
+}
+
+/**
+ * Middleware that logs every action with its payload, the
+ * previous state and the next state.
+ *
+ * @example
+ * createStore({ name: 'counter', initialState, middleware: [logger()] });
+ */
+export const logger = ({ log = console.log }: LoggerOptions = {}) => {
+  const loggerMiddleware: Middleware = (context, next) => {
+    const { type, ...details } = context;
+    log(`[${ActionTypes[type]}] ${context.name}`, details);
+    next(context.nextState);
+  };
+  return loggerMiddleware;
+};
+
+/**
+ * Options for the timing middleware.
+ */
+export interface TimingOptions {
+  /**
+   * Called after each update with the time in milliseconds from when
+   * the action was called to when the update finished, including the
+   * time spent notifying listeners. Defaults to `console.log`.
+   */
+  onTiming?: (name: string, duration: number, type: ActionTypes) => void;
+}
+
+/**
+ * Middleware that measures how long each action takes to update
+ * the store. For async actions this includes the time spent
+ * waiting for the action to resolve.
+ *
+ * @example
+ * createStore({ name: 'counter', initialState, middleware: [timing()] });
+ */
+export const timing = ({
+  onTiming = (name, duration) =>
+    console.log(`${name} took ${duration.toFixed(2)}ms`),
+}: TimingOptions = {}) => {
+  const timingMiddleware: Middleware = (context, next) => {
+    next(context.nextState);
+    onTiming(context.name, performance.now() - context.startedAt, context.type);
+  };
+  return timingMiddleware;
+};
@@ -0,0 +1,192 @@
+import type { ActionContext, Actions, Middleware } from './types';
+import { ActionTypes } from './types';
+import { StateStore } from './state-store';
+import { isPlainObject } from './structural-sharing';
+
+/** An update recorded while an optimistic update is pending. */
+interface OptimisticEntry<State> {
+  /** Applies the update to a state when replaying. */
+  reducer: (state: State) => State;
+  /** Whether it's an optimistic update waiting for its commit. */
+  isPending: boolean;
+}
+
+/**
+ * Creates a reducer that applies the changes between two states to
+ * another state. Only the top level properties that changed are
+ * applied when both states are plain objects.
+ */
+const createChangesReducer = <State>(prevState: State, nextState: State) => {
+  if (!isPlainObject(prevState) || !isPlainObject(nextState)) {
+    return () => nextState;
+  }
+  const changed: Record<string, unknown> = {};
+  for (const key in nextState) {
+    if (nextState[key] !== prevState[key]) {
+      changed[key] = nextState[key];
+    }
+  }
+  const removed = Object.keys(prevState).filter((key) => !(key in nextState));
+
+  return (state: State) => {
+    if (!isPlainObject(state)) {
+      return nextState;
+    }
+    const newState: Record<string, unknown> = { ...state, ...changed };
+    removed.forEach((key) => delete newState[key]);
+    return newState as State;
+  };
+};
+
+/**
+ * Keeps track of optimistic updates so they can be rolled back.
+ *
+ * While an optimistic update is pending every update to the store is
+ * recorded. Rolling back replays the updates made after it on top of
+ * the state before it, sync actions are called again and other
+ * updates reapply the properties they changed.
+ *
+ * @param stateStore The store the updates are applied to.
+ * @param actionsOption The sync actions of the store.
+ * @returns `middleware` for recording updates, it must be the last
+ * middleware. Along with `apply`, `commit` and `rollback` for
+ * managing optimistic updates.
+ */
+export const createOptimisticUpdates = <State>(
+  stateStore: StateStore<string, State>,
+  actionsOption?: Actions<State>,
+) => {
+  //
+  let baseState = stateStore.getState();
+  let lastState = baseState;
+  const entries: OptimisticEntry<State>[] = [];
+  // Entry for the update being dispatched by `apply` or `commit`,
+  // null when the update shouldn't be recorded.
+  let dispatching: OptimisticEntry<State> | null | undefined;
+
+  // Records updates made without actions e.g. undo.
+  const recordExternalUpdates = () => {
+    const state = stateStore.getState();
+    if (entries.length && state !== lastState) {
+      entries.push({
+        reducer: createChangesReducer(lastState, state),
+        isPending: false,
+      });
+    }
+    lastState = state;
+  };
+
+  // Removes entries that can no longer be rolled back.
+  const settle = () => {
+    while (entries.length && !entries[0].isPending) {
+      baseState = (entries.shift() as OptimisticEntry<State>).reducer(
+        baseState,
+      );
+    }
+  };
+
+  const createEntry = (
+    context: ActionContext<State>,
+    nextState: State,
+  ): OptimisticEntry<State> => {
+    const action = actionsOption?.[context.name];
+    const reducer =
+      context.type === ActionTypes.sync && action
+        ? (state: State) => action(state, ...context.payload)
+        : createChangesReducer(stateStore.getState(), nextState);
+    return { reducer, isPending: false };
+  };
+
+  const middleware: Middleware<State> = (context, next) => {
+    recordExternalUpdates();
+    if (dispatching === null || (!dispatching && !entries.length)) {
+      next(context.nextState);
+      lastState = stateStore.getState();
+      return;
+    }
+    if (!entries.length) {
+      baseState = stateStore.getState();
+    }
+    const entry = dispatching ?? createEntry(context, context.nextState);
+    next(context.nextState);
+    entries.push(entry);
+    lastState = stateStore.getState();
+  };
+
+  // Dispatches the result of a reducer, recording it as `entry`.
+  const dispatchEntry = (
+    entry: OptimisticEntry<State>,
+    dispatch: (nextState: State) => void,
+  ) => {
+    dispatching = entry;
+    try {
+      dispatch(entry.reducer(stateStore.getState()));
+    } finally {
+      dispatching = undefined;
+    }
+    return entry;
+  };
+
+  /**
+   * Applies an optimistic update.
+   * @param reducer Returns the optimistic state.
+   * @param dispatch Dispatches the optimistic state.
+   * @returns The entry for committing or rolling back the update.
+   */
+  const apply = (
+    reducer: (state: State) => State,
+    dispatch: (nextState: State) => void,
+  ) => dispatchEntry({ reducer, isPending: true }, dispatch);
+
+  /**
+   * Keeps the optimistic update and applies the final state. The
+   * optimistic update is rolled back if the final state can't be
+   * applied, e.g. when it's invalid, and the error is thrown again.
+   * @param reducer Returns the final state, it's called again when
+   * replaying.
+   * @param dispatch Dispatches the final state.
+   */
+  const commit = (
+    entry: OptimisticEntry<State>,
+    reducer: (state: State) => State,
+    dispatch: (nextState: State) => void,
+  ) => {
+    try {
+      dispatchEntry({ reducer, isPending: false }, dispatch);
+    } catch (error) {
+      rollback(entry, dispatch);
+      throw error;
+    }
+    entry.isPending = false;
+    settle();
+  };
+
+  /**
+   * Removes an optimistic update, replaying the updates made after
+   * it on top of the state before it.
+   */
+  const rollback = (
+    entry: OptimisticEntry<State>,
+    dispatch: (nextState: State) => void,
+  ) => {
+    recordExternalUpdates();
+    const index = entries.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+    entries.splice(index, 1);
+    const state = entries.reduce(
+      (state, { reducer }) => reducer(state),
+      baseState,
+    );
+    dispatching = null;
+    try {
+      dispatch(state);
+    } finally {
+      dispatching = undefined;
+    }
+    settle();
+  };
+
+  return { middleware, apply, commit, rollback };
+};
@@ -0,0 +1,231 @@
+import type { Patch } from './types';
+import { isPlainObject, replaceEqualDeep } from './structural-sharing';
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container =>
+  isPlainObject(value) || Array.isArray(value);
+
+const hasOwn = (object: object, key: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const escapeToken = (token: string | number) =>
+  String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapeToken = (token: string) =>
+  token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+const parsePath = (path: string) => {
+  if (path === '') {
+    return [];
+  }
+  if (!path.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${path}".`);
+  }
+  return path.slice(1).split('/').map(unescapeToken);
+};
+
+/**
+ * Adds the patches for turning `prev` into `next`. Each inverse
+ * patch undoes the patch at the same index.
+ */
+const diff = (
+  prev: unknown,
+  next: unknown,
+  path: string,
+  patches: Patch[],
+  inversePatches: Patch[],
+) => {
+  if (Object.is(prev, next)) {
+    return;
+  }
+  const isSameKind =
+    isContainer(prev) &&
+    isContainer(next) &&
+    Array.isArray(prev) === Array.isArray(next);
+  if (!isSameKind) {
+    patches.push({ op: 'replace', path, value: next });
+    inversePatches.push({ op: 'replace', path, value: prev });
+    return;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const length = Math.min(prev.length, next.length);
+    for (let i = 0; i < length; i++) {
+      diff(prev[i], next[i], `${path}/${i}`, patches, inversePatches);
+    }
+    for (let i = length; i < next.length; i++) {
+      patches.push({ op: 'add', path: `${path}/${i}`, value: next[i] });
+      inversePatches.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    // Remove from the end so the indexes of the other items don't move.
+    for (let i = prev.length - 1; i >= length; i--) {
+      patches.push({ op: 'remove', path: `${path}/${i}` });
+      inversePatches.push({ op: 'add', path: `${path}/${i}`, value: prev[i] });
+    }
+    return;
+  }
+
+  const prevObject = prev as Record<string, unknown>;
+  const nextObject = next as Record<string, unknown>;
+  for (const key of Object.keys(prevObject)) {
+    const keyPath = `${path}/${escapeToken(key)}`;
+    if (!hasOwn(nextObject, key)) {
+      patches.push({ op: 'remove', path: keyPath });
+      inversePatches.push({ op: 'add', path: keyPath, value: prevObject[key] });
+    } else {
+      diff(prevObject[key], nextObject[key], keyPath, patches, inversePatches);
+    }
+  }
+  for (const key of Object.keys(nextObject)) {
+    if (!hasOwn(prevObject, key)) {
+      const keyPath = `${path}/${escapeToken(key)}`;
+      patches.push({ op: 'add', path: keyPath, value: nextObject[key] });
+      inversePatches.push({ op: 'remove', path: keyPath });
+    }
+  }
+};
+
+/**
+ * Creates the JSON Patches (RFC 6902) for turning `prev` into `next`,
+ * along with the patches for turning `next` back into `prev`.
+ *
+ * Only plain objects and arrays are compared property by property,
+ * parts of the states that are the same object are skipped.
+ */
+export const createPatches = (prev: unknown, next: unknown) => {
+  const patches: Patch[] = [];
+  const inversePatches: Patch[] = [];
+  diff(prev, next, '', patches, inversePatches);
+  // The inverse patches undo the last patch first.
+  return { patches, inversePatches: inversePatches.reverse() };
+};
+
+const getIn = (value: unknown, tokens: string[], path: string) =>
+  tokens.reduce((parent, token) => {
+    if (!isContainer(parent) || !hasOwn(parent, token)) {
+      throw new Error(`Path "${path}" doesn't exist in the state.`);
+    }
+    return (parent as Record<string, unknown>)[token];
+  }, value);
+
+const toIndex = (
+  array: unknown[],
+  token: string,
+  path: string,
+  max: number,
+) => {
+  const index = token === '-' ? array.length : Number(token);
+  if (!/^(0|[1-9]\d*|-)$/.test(token) || index > max) {
+    throw new Error(`Invalid array index in path "${path}".`);
+  }
+  return index;
+};
+
+/**
+ * Copies every container along `tokens` and calls `update` with the
+ * copy of the parent of the last token.
+ */
+const updateIn = (
+  value: unknown,
+  tokens: string[],
+  path: string,
+  update: (parent: Container, token: string) => void,
+): unknown => {
+  if (!isContainer(value)) {
+    throw new Error(`Path "${path}" doesn't exist in the state.`);
+  }
+  const copy: Container = Array.isArray(value) ? [...value] : { ...value };
+  const [token, ...rest] = tokens;
+  if (rest.length === 0) {
+    update(copy, token);
+  } else {
+    const child = (copy as Record<string, unknown>)[token];
+    (copy as Record<string, unknown>)[token] = updateIn(
+      child,
+      rest,
+      path,
+      update,
+    );
+  }
+  return copy;
+};
+
+const add = (state: unknown, path: string, value: unknown) => {
+  const tokens = parsePath(path);
+  if (!tokens.length) {
+    return value;
+  }
+  return updateIn(state, tokens, path, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(toIndex(parent, token, path, parent.length), 0, value);
+    } else {
+      parent[token] = value;
+    }
+  });
+};
+
+const remove = (state: unknown, path: string) => {
+  const tokens = parsePath(path);
+  getIn(state, tokens, path);
+  if (!tokens.length) {
+    return undefined;
+  }
+  return updateIn(state, tokens, path, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(toIndex(parent, token, path, parent.length - 1), 1);
+    } else {
+      delete parent[token];
+    }
+  });
+};
+
+const replace = (state: unknown, path: string, value: unknown) => {
+  const tokens = parsePath(path);
+  getIn(state, tokens, path);
+  if (!tokens.length) {
+    return value;
+  }
+  return updateIn(state, tokens, path, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent[toIndex(parent, token, path, parent.length - 1)] = value;
+    } else {
+      parent[token] = value;
+    }
+  });
+};
+
+const applyPatch = (state: unknown, patch: Patch) => {
+  switch (patch.op) {
+    case 'add':
+      return add(state, patch.path, patch.value);
+    case 'remove':
+      return remove(state, patch.path);
+    case 'replace':
+      return replace(state, patch.path, patch.value);
+    case 'move': {
+      const value = getIn(state, parsePath(patch.from), patch.from);
+      return add(remove(state, patch.from), patch.path, value);
+    }
+    case 'copy': {
+      const value = getIn(state, parsePath(patch.from), patch.from);
+      return add(state, patch.path, value);
+    }
+    case 'test': {
+      const value = getIn(state, parsePath(patch.path), patch.path);
+      if (replaceEqualDeep(value, patch.value) !== value) {
+        throw new Error(`Test failed for the path "${patch.path}".`);
+      }
+      return state;
+    }
+  }
+};
+
+/**
+ * Applies JSON Patches (RFC 6902) to a state without mutating it,
+ * parts of the state that aren't patched are kept by reference.
+ *
+ * Throws if a path doesn't exist or a `test` operation fails.
+ */
+export const applyPatches = <State>(state: State, patches: Patch[]): State =>
+  patches.reduce<unknown>(applyPatch, state) as State;
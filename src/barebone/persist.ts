@@ -0,0 +1,188 @@
+import type {
+  PersistOptions,
+  PersistStorage,
+  PersistedState,
+  StorePersistence,
+} from './types';
+import { StateStore } from './state-store';
+import { createPartialize, mergePartialState, whenResolved } from './utils';
+
+/**
+ * Storage adapter for the Web Storage API.
+ */
+const createWebStorage = (getStorage: () => Storage): PersistStorage => {
+  // Web storage isn't available when rendering on the server.
+  const storage = () =>
+    typeof window === 'undefined' ? undefined : getStorage();
+
+  return {
+    getItem: (key) => {
+      const value = storage()?.getItem(key);
+      return value ? JSON.parse(value) : null;
+    },
+    setItem: (key, value) => storage()?.setItem(key, JSON.stringify(value)),
+    removeItem: (key) => storage()?.removeItem(key),
+  };
+};
+
+/** Saves the state to `localStorage`. */
+export const createLocalStorage = () =>
+  createWebStorage(() => window.localStorage);
+
+/** Saves the state to `sessionStorage`. */
+export const createSessionStorage = () =>
+  createWebStorage(() => window.sessionStorage);
+
+/** Keeps the state in memory, mostly useful for testing. */
+export const createMemoryStorage = (): PersistStorage & {
+  items: Map<string, PersistedState>;
+} => {
+  const items = new Map<string, PersistedState>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * Restores the state of the store from the storage and saves it
+ * every time it updates.
+ *
+ * The state is restored straight away when the storage is sync,
+ * for async storages use `hasHydrated` or `useHydrated` to check if
+ * it has been restored.
+ *
+ * When `options` is undefined nothing is saved and the store is
+ * considered hydrated.
+ *
+ * @param stateStore The store being persisted.
+ * @param options Persist options, see `PersistOptions`.
+ */
+export const persistStore = <State>(
+  stateStore: StateStore<string, State>,
+  options?: PersistOptions<State>,
+): Omit<StorePersistence, 'useHydrated'> & {
+  statusStore: StateStore<'persist', boolean>;
+} => {
+  //
+  const statusStore = new StateStore('persist', !options);
+
+  const hasHydrated = () => statusStore.getState();
+
+  if (!options) {
+    return {
+      hasHydrated,
+      statusStore,
+      clearPersistedState: () => Promise.resolve(),
+    };
+  }
+
+  const {
+    key = stateStore.stateName,
+    storage = createLocalStorage(),
+    version = 0,
+    migrate,
+    include,
+    exclude,
+    throttle = 0,
+    onError = console.error,
+  } = options;
+
+  /** Select the part of the state that should be saved. */
+  const partialize = createPartialize(include, exclude);
+
+  /** Combine a saved partial state with the current state. */
+  const merge = (persistedState: Partial<State> | State) =>
+    mergePartialState(stateStore.getState(), persistedState);
+
+  const write = () => {
+    try {
+      const result = storage.setItem(key, {
+        state: partialize(stateStore.getState()),
+        version,
+      });
+      if (result instanceof Promise) {
+        result.catch(onError);
+      }
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  // Throttle writes, the latest state is always written at the
+  // end of each throttle period.
+  let throttleTimer: ReturnType<typeof setTimeout> | undefined;
+  let hasPendingWrite = false;
+
+  const scheduleWrite = () => {
+    if (throttle <= 0) {
+      write();
+      return;
+    }
+    if (throttleTimer) {
+      hasPendingWrite = true;
+      return;
+    }
+    write();
+    const endThrottle = () => {
+      if (hasPendingWrite) {
+        hasPendingWrite = false;
+        write();
+        throttleTimer = setTimeout(endThrottle, throttle);
+      } else {
+        throttleTimer = undefined;
+      }
+    };
+    throttleTimer = setTimeout(endThrottle, throttle);
+  };
+
+  const restore = (persisted: PersistedState | null) => {
+    if (!persisted) {
+      return;
+    }
+    if (persisted.version === version) {
+      stateStore.updateState(merge(persisted.state));
+      return;
+    }
+    if (!migrate) {
+      return;
+    }
+    return whenResolved(
+      migrate(persisted.state, persisted.version),
+      (migratedState) => {
+        stateStore.updateState(merge(partialize(migratedState)));
+        // Replace the old version in the storage.
+        write();
+      },
+    );
+  };
+
+  const finishHydration = () => {
+    statusStore.updateState(true);
+    stateStore.subscribe(scheduleWrite);
+  };
+
+  try {
+    const result = whenResolved(storage.getItem(key), restore);
+    if (result instanceof Promise) {
+      result.catch(onError).finally(finishHydration);
+    } else {
+      finishHydration();
+    }
+  } catch (error) {
+    onError(error);
+    finishHydration();
+  }
+
+  const clearPersistedState = async () => {
+    await storage.removeItem(key);
+  };
+
+  return { hasHydrated, statusStore, clearPersistedState };
+};
@@ -0,0 +1,65 @@
+import type { Store, StoreSubscribe, StoreWatch } from './types';
+
+/** Max number of reactions running inside of each other. */
+const MAX_REACTION_DEPTH = 100;
+
+// Shared by every store so loops between stores are stopped as well.
+let reactionDepth = 0;
+
+/**
+ * Creates the `watch` function of a store.
+ *
+ * Effects that update the value they watch run again straight away,
+ * a reaction is skipped when reactions run inside of each other more
+ * than `MAX_REACTION_DEPTH` times, as it's most likely an infinite loop.
+ *
+ * Only synchronous loops are stopped. An effect that calls an async
+ * action which updates the value it watches runs again every time
+ * the action finishes, so it has to check the value itself.
+ *
+ * @param subscribe The `subscribe` function of the store.
+ * @param context Passed to every effect, i.e. the actions of the store.
+ */
+export const createWatch =
+  <S extends Store, Computed, Context>(
+    subscribe: StoreSubscribe<S, Computed>,
+    context: Context,
+  ): StoreWatch<S, Computed, Context> =>
+  (selector, effect, { equalityFn, immediate, name } = {}) => {
+    let cleanup: (() => void) | undefined;
+
+    const runCleanup = () => {
+      const cleanupFn = cleanup;
+      cleanup = undefined;
+      cleanupFn?.();
+    };
+
+    const unsubscribe = subscribe(
+      selector,
+      (value, previousValue) => {
+        if (reactionDepth >= MAX_REACTION_DEPTH) {
+          console.error(
+            `Stopped the reaction${name ? ` "${name}"` : ''} after ` +
+              `${MAX_REACTION_DEPTH} nested runs, its effect is probably ` +
+              'updating the value it watches.',
+          );
+          return;
+        }
+        reactionDepth++;
+        try {
+          runCleanup();
+          const result = effect(value, previousValue, context);
+          // Async effects return a promise, only functions are cleanups.
+          cleanup = typeof result === 'function' ? result : undefined;
+        } finally {
+          reactionDepth--;
+        }
+      },
+      { equalityFn, fireImmediately: immediate },
+    );
+
+    return () => {
+      unsubscribe();
+      runCleanup();
+    };
+  };
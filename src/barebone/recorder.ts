@@ -0,0 +1,176 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  ActionLog,
+  Actions,
+  AsyncActions,
+  Middleware,
+  RecordedAction,
+  ReplayOptions,
+  ReplayResult,
+  StoreRecorder,
+} from './types';
+import { ActionTypes } from './types';
+import { StateStore } from './state-store';
+import { isPlainObject } from './structural-sharing';
+
+/** Makes a JSON safe copy of a value. */
+const serialize = <T>(value: T): T => {
+  const json = JSON.stringify(value);
+  return json === undefined ? value : JSON.parse(json);
+};
+
+/**
+ * Hashes a state using FNV-1a. Object keys are sorted first so the
+ * hash doesn't depend on the order properties were added in.
+ */
+export const hashState = (state: unknown) => {
+  const json =
+    JSON.stringify(state, (_key, value) =>
+      isPlainObject(value)
+        ? Object.fromEntries(
+            Object.keys(value)
+              .sort()
+              .map((key) => [key, value[key]]),
+          )
+        : value,
+    ) ?? 'undefined';
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Creates the functions for reading the action log of a store,
+ * along with a middleware that records each action.
+ *
+ * When `enabled` isn't set nothing is recorded.
+ *
+ * @param stateStore The store the actions are recorded for.
+ * @param enabled Whether to record the actions.
+ */
+export const createActionRecorder = <
+  State,
+  ActionsSync extends Actions<State>,
+  ActionsAsync extends AsyncActions<State>,
+>(
+  stateStore: StateStore<string, State>,
+  enabled?: boolean,
+): StoreRecorder<State> & {
+  middleware?: Middleware<State, ActionsSync, ActionsAsync>;
+} => {
+  //
+  let initialState = serialize(stateStore.getState());
+  let actions: RecordedAction[] = [];
+
+  const getActionLog = (): ActionLog<State> => ({
+    version: 1,
+    name: stateStore.stateName,
+    initialState,
+    actions: [...actions],
+  });
+
+  const exportActionLog = () => JSON.stringify(getActionLog());
+
+  const clearActionLog = () => {
+    initialState = serialize(stateStore.getState());
+    actions = [];
+  };
+
+  const storeRecorder = { getActionLog, exportActionLog, clearActionLog };
+  if (!enabled) {
+    return storeRecorder;
+  }
+
+  const recorderMiddleware: Middleware<State, ActionsSync, ActionsAsync> = (
+    context,
+    next,
+  ) => {
+    next(context.nextState);
+    // Actions that throw aren't recorded, their update never happened.
+    const state = stateStore.getState();
+    const isSync = context.type === ActionTypes.sync;
+    actions.push({
+      key: context.name,
+      type: isSync ? 'sync' : 'async',
+      payload: serialize(context.payload),
+      timestamp: Date.now(),
+      stateHash: hashState(state),
+      ...(!isSync && { result: serialize(state) }),
+    });
+  };
+
+  return { ...storeRecorder, middleware: recorderMiddleware };
+};
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs the actions of a log again on a store, use with a newly
+ * created store to reproduce a bug report.
+ *
+ * The store is set to the initial state of the log first. Sync actions
+ * are called again with their payload, async actions commit their
+ * recorded result instead of running, so side effects don't happen
+ * twice. The replay stops at the first action whose resulting state
+ * doesn't match the hash in the log.
+ *
+ * @param store A store created with the same options as the recorded
+ * store.
+ * @param log The log from `getActionLog` or `exportActionLog`.
+ * @param options.speed Optional, how much faster than recorded to
+ * replay. Defaults to replaying every action straight away.
+ * @param options.stopAt Optional, index of the last action to replay.
+ *
+ * @example
+ * const store = createStore(counterOptions);
+ * const { mismatch } = await replay(store, bugReport.actionLog);
+ */
+export const replay = async <State>(
+  store: {
+    stateStore: StateStore<string, State>;
+    actions: Record<string, (...payload: any[]) => void>;
+  },
+  log: ActionLog<State> | string,
+  { speed = Infinity, stopAt = Infinity }: ReplayOptions = {},
+): Promise<ReplayResult> => {
+  //
+  const actionLog: ActionLog<State> =
+    typeof log === 'string' ? JSON.parse(log) : log;
+  const { stateStore, actions } = store;
+  if (actionLog.name !== stateStore.stateName) {
+    throw new Error(
+      `The log was recorded from the store "${actionLog.name}", ` +
+        `not "${stateStore.stateName}".`,
+    );
+  }
+
+  stateStore.updateState(actionLog.initialState);
+  const lastIndex = Math.min(stopAt, actionLog.actions.length - 1);
+
+  for (let index = 0; index <= lastIndex; index++) {
+    const action = actionLog.actions[index];
+    const previousAction = actionLog.actions[index - 1];
+    if (previousAction && speed !== Infinity) {
+      await delay((action.timestamp - previousAction.timestamp) / speed);
+    }
+
+    if (action.type === 'async') {
+      stateStore.updateState(action.result as State);
+    } else if (actions[action.key]) {
+      actions[action.key](...action.payload);
+    } else {
+      throw new Error(`The store has no action named "${action.key}".`);
+    }
+
+    const stateHash = hashState(stateStore.getState());
+    if (stateHash !== action.stateHash) {
+      return { replayed: index + 1, mismatch: { index, action, stateHash } };
+    }
+  }
+  return { replayed: lastIndex + 1 };
+};
@@ -0,0 +1,75 @@
+import type { StateStore } from './state-store';
+
+export interface StoreRegistryOptions {
+  /**
+   * What to do when a store is registered with the same name as an
+   * existing store. The new store replaces the old one unless
+   * `'throw'` is used. Defaults to `'warn'`.
+   */
+  onDuplicate?: 'warn' | 'throw' | 'replace';
+}
+
+/**
+ * Keeps track of stores by name.
+ *
+ * Stores are added to the registry passed to `options.registry`, or
+ * to the global `storeRegistry` when it's `true`.
+ */
+export class StoreRegistry {
+  stores: Map<string, StateStore>;
+  onDuplicate: NonNullable<StoreRegistryOptions['onDuplicate']>;
+
+  constructor({ onDuplicate = 'warn' }: StoreRegistryOptions = {}) {
+    this.stores = new Map();
+    this.onDuplicate = onDuplicate;
+  }
+
+  /**
+   * Add a store to the registry and return the function for
+   * removing it.
+   */
+  register(stateStore: StateStore) {
+    const name = stateStore.stateName;
+    if (this.stores.has(name)) {
+      const message = `A store named "${name}" already exists.`;
+      if (this.onDuplicate === 'throw') {
+        throw new Error(message);
+      }
+      if (this.onDuplicate === 'warn') {
+        console.warn(`${message} It will be replaced by the new store.`);
+      }
+    }
+    this.stores.set(name, stateStore);
+
+    return () => {
+      this.unregister(stateStore);
+    };
+  }
+
+  unregister(stateStore: StateStore) {
+    // Don't remove a newer store that replaced this one.
+    if (this.stores.get(stateStore.stateName) === stateStore) {
+      this.stores.delete(stateStore.stateName);
+    }
+  }
+
+  get(name: string) {
+    return this.stores.get(name);
+  }
+
+  getStores() {
+    return [...this.stores.values()];
+  }
+
+  /** Set every store back to its initial state. */
+  resetAll() {
+    this.stores.forEach((stateStore) => stateStore.reset());
+  }
+
+  clear() {
+    this.stores.clear();
+  }
+}
+
+/** Registry that stores are added to by default. */
+export const storeRegistry = new StoreRegistry();
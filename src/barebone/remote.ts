@@ -0,0 +1,249 @@
+import type {
+  RemoteClientMessage,
+  RemoteOperation,
+  RemoteOptions,
+  RemoteServerMessage,
+  RemoteTransport,
+  Store,
+} from './types';
+import type { StateStore } from './state-store';
+import { applyPatches } from './patches';
+import { batch } from './batch';
+
+/**
+ * Applies operations to a state in order, operations that can't be
+ * applied are left out.
+ * @returns The new state and the operations that were applied.
+ */
+const applyOperations = <State>(
+  state: State,
+  operations: RemoteOperation[],
+) => {
+  const applied: RemoteOperation[] = [];
+  for (const operation of operations) {
+    try {
+      state = applyPatches(state, operation.patches);
+      applied.push(operation);
+    } catch {
+      // The operation conflicts with the state, e.g. the item it
+      // updates was removed.
+    }
+  }
+  return { state, applied };
+};
+
+/**
+ * Keeps the store in sync with a server. Every update is sent to the
+ * server as an operation containing its JSON Patches. The updates of
+ * a batch are sent as one operation, updates rolled back by a
+ * transaction aren't sent.
+ *
+ * Operations stay pending until the server confirms or rejects them.
+ * They're queued while the transport is disconnected and sent again
+ * when it reconnects. When the server sends its state, the pending
+ * operations are applied on top of it, operations that no longer
+ * apply are dropped.
+ *
+ * @param stateStore The store being synced.
+ * @param options.transport Connection to the server.
+ */
+export const remoteStore = <State>(
+  stateStore: StateStore<string, State>,
+  { transport }: RemoteOptions<State>,
+) => {
+  //
+  const clientId = Math.random().toString(36).slice(2);
+  let operationCount = 0;
+  let pending: RemoteOperation[] = [];
+  let version = -1;
+  // The snapshot set by the last state received from the server.
+  let remoteSnapshot: Store | undefined;
+
+  const push = (operations: RemoteOperation[]) => {
+    if (operations.length && transport.isConnected()) {
+      transport.send({ type: 'push', operations });
+    }
+  };
+
+  stateStore.onPatches((patches) => {
+    // Don't send the state received from the server back. Updates
+    // made by listeners in response to it are sent.
+    if (stateStore.getSnapshot() === remoteSnapshot) {
+      return;
+    }
+    const operation = { id: `${clientId}:${operationCount++}`, patches };
+    pending.push(operation);
+    push([operation]);
+  });
+
+  transport.onConnectionChange((connected) => {
+    // The server ignores operations it has already applied.
+    if (connected) {
+      push(pending);
+    }
+  });
+
+  transport.onMessage((message) => {
+    if (message.version < version) {
+      return;
+    }
+    version = message.version;
+
+    const settled = new Set([...message.applied, ...message.rejected]);
+    const { state, applied } = applyOperations(
+      message.state,
+      pending.filter((operation) => !settled.has(operation.id)),
+    );
+    pending = applied;
+
+    // Listeners are notified after the snapshot is known.
+    batch(() => {
+      stateStore.updateState(state);
+      remoteSnapshot = stateStore.getSnapshot();
+    });
+  });
+};
+
+/**
+ * Transport connected to a loopback server, it can be disconnected
+ * for testing how stores behave while offline.
+ */
+export interface MemoryTransport<State> extends RemoteTransport<State> {
+  /** Close the connection, messages aren't delivered until reconnecting. */
+  disconnect: () => void;
+}
+
+/**
+ * Server that keeps its state in memory, use for testing stores
+ * with the `remote` option without a network.
+ *
+ * Operations are applied in the order they're received, operations
+ * that can't be applied are rejected. Messages are delivered in a
+ * microtask like they would be over a network.
+ *
+ * @param initialState The state of the server.
+ * @returns { createTransport, getState, setState, flush }
+ *
+ * @example
+ * const server = createLoopbackServer({ todos: [] });
+ * const { actions } = createStore({
+ *   name: 'todos',
+ *   initialState: { todos: [] },
+ *   remote: { transport: server.createTransport() },
+ *   // actions...
+ * });
+ */
+export const createLoopbackServer = <State>(initialState: State) => {
+  //
+  let state = initialState;
+  let version = 0;
+  const appliedIds = new Set<string>();
+  const clients = new Set<(message: RemoteServerMessage<State>) => void>();
+
+  const createMessage = (
+    applied: string[] = [],
+    rejected: string[] = [],
+  ): RemoteServerMessage<State> => ({
+    type: 'state',
+    version,
+    state,
+    applied,
+    rejected,
+  });
+
+  const broadcast = (message: RemoteServerMessage<State>) => {
+    clients.forEach((deliver) => deliver(message));
+  };
+
+  const receive = ({ operations }: RemoteClientMessage) => {
+    const newOperations = operations.filter(({ id }) => !appliedIds.has(id));
+    const result = applyOperations(state, newOperations);
+    result.applied.forEach(({ id }) => appliedIds.add(id));
+
+    if (result.state !== state) {
+      state = result.state;
+      version++;
+    }
+    broadcast(
+      createMessage(
+        operations.filter(({ id }) => appliedIds.has(id)).map(({ id }) => id),
+        operations.filter(({ id }) => !appliedIds.has(id)).map(({ id }) => id),
+      ),
+    );
+  };
+
+  /** Create a transport connected to the server. */
+  const createTransport = (): MemoryTransport<State> => {
+    let connected = true;
+    const messageListeners = new Set<
+      (message: RemoteServerMessage<State>) => void
+    >();
+    const connectionListeners = new Set<(connected: boolean) => void>();
+
+    const deliver = (message: RemoteServerMessage<State>) => {
+      queueMicrotask(() => {
+        if (connected) {
+          messageListeners.forEach((listener) => listener(message));
+        }
+      });
+    };
+    const setConnected = (isConnected: boolean) => {
+      connected = isConnected;
+      connectionListeners.forEach((listener) => listener(isConnected));
+      if (isConnected) {
+        clients.add(deliver);
+        deliver(createMessage());
+      } else {
+        clients.delete(deliver);
+      }
+    };
+
+    clients.add(deliver);
+    deliver(createMessage());
+
+    return {
+      send: (message) => {
+        if (!connected) {
+          throw new Error('The transport is disconnected.');
+        }
+        queueMicrotask(() => receive(message));
+      },
+      onMessage: (listener) => {
+        messageListeners.add(listener);
+        return () => {
+          messageListeners.delete(listener);
+        };
+      },
+      onConnectionChange: (listener) => {
+        connectionListeners.add(listener);
+        return () => {
+          connectionListeners.delete(listener);
+        };
+      },
+      isConnected: () => connected,
+      reconnect: () => {
+        if (!connected) {
+          setConnected(true);
+        }
+      },
+      disconnect: () => {
+        if (connected) {
+          setConnected(false);
+        }
+      },
+    };
+  };
+
+  return {
+    createTransport,
+    getState: () => state,
+    /** Update the state on the server and send it to every store. */
+    setState: (newState: State) => {
+      state = newState;
+      version++;
+      broadcast(createMessage());
+    },
+    /** Wait until every message sent so far has been delivered. */
+    flush: () => new Promise<void>((resolve) => setTimeout(resolve)),
+  };
+};
@@ -0,0 +1,139 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { isPlainObject } from './structural-sharing';
+
+/**
+ * Describes the shape of a value, created using the functions
+ * on `schema`.
+ */
+export interface Schema<T = any> {
+  /**
+   * Checks a value against the schema.
+   * @param value The value to check.
+   * @param path Where the value is, used in the descriptions.
+   * @returns A description of each problem found, empty when the
+   * value matches the schema.
+   */
+  check(value: unknown, path?: string): string[];
+  /** Only used for inferring the type, it's always undefined. */
+  readonly type?: T;
+}
+
+/** The type of the values matching a schema. */
+export type InferSchema<S extends Schema> = S extends Schema<infer T>
+  ? T
+  : never;
+
+const describe = (value: unknown) => {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+const createSchema = <T>(
+  check: (value: unknown, path: string) => string[],
+): Schema<T> => ({
+  check: (value, path = 'state') => check(value, path),
+});
+
+const typeOf = <T>(type: 'string' | 'number' | 'boolean') =>
+  createSchema<T>((value, path) =>
+    typeof value === type
+      ? []
+      : [`${path}: expected a ${type}, received ${describe(value)}`],
+  );
+
+/**
+ * Minimal schemas for validating the state.
+ *
+ * @example
+ * const todoSchema = schema.object({
+ *   title: schema.string(),
+ *   done: schema.boolean(),
+ *   tags: schema.optional(schema.array(schema.string())),
+ * });
+ *
+ * type Todo = InferSchema<typeof todoSchema>;
+ */
+export const schema = {
+  string: () => typeOf<string>('string'),
+
+  number: () => typeOf<number>('number'),
+
+  boolean: () => typeOf<boolean>('boolean'),
+
+  /** Matches any value. */
+  any: () => createSchema<any>(() => []),
+
+  /** Matches a single value. */
+  literal: <T extends string | number | boolean | null>(expected: T) =>
+    createSchema<T>((value, path) =>
+      value === expected
+        ? []
+        : [`${path}: expected ${JSON.stringify(expected)}`],
+    ),
+
+  /** Matches arrays where every item matches `item`. */
+  array: <T>(item: Schema<T>) =>
+    createSchema<T[]>((value, path) =>
+      Array.isArray(value)
+        ? value.flatMap((child, index) =>
+            item.check(child, `${path}[${index}]`),
+          )
+        : [`${path}: expected an array, received ${describe(value)}`],
+    ),
+
+  /**
+   * Matches plain objects where each property matches the schema
+   * in `shape`. Properties not in `shape` aren't checked.
+   */
+  object: <Shape extends Record<string, Schema>>(shape: Shape) =>
+    createSchema<{ [key in keyof Shape]: InferSchema<Shape[key]> }>(
+      (value, path) => {
+        if (!isPlainObject(value)) {
+          return [`${path}: expected an object, received ${describe(value)}`];
+        }
+        return Object.keys(shape).flatMap((key) =>
+          shape[key].check(value[key], `${path}.${key}`),
+        );
+      },
+    ),
+
+  /** Matches objects where every value matches `item`. */
+  record: <T>(item: Schema<T>) =>
+    createSchema<Record<string, T>>((value, path) => {
+      if (!isPlainObject(value)) {
+        return [`${path}: expected an object, received ${describe(value)}`];
+      }
+      return Object.keys(value).flatMap((key) =>
+        item.check(value[key], `${path}.${key}`),
+      );
+    }),
+
+  /** Matches `undefined` or values matching `item`. */
+  optional: <T>(item: Schema<T>) =>
+    createSchema<T | undefined>((value, path) =>
+      value === undefined ? [] : item.check(value, path),
+    ),
+
+  /** Matches `null` or values matching `item`. */
+  nullable: <T>(item: Schema<T>) =>
+    createSchema<T | null>((value, path) =>
+      value === null ? [] : item.check(value, path),
+    ),
+
+  /** Matches values matching at least one of the schemas. */
+  union: <Schemas extends Schema[]>(...schemas: Schemas) =>
+    createSchema<InferSchema<Schemas[number]>>((value, path) =>
+      schemas.some((item) => item.check(value, path).length === 0)
+        ? []
+        : [
+            `${path}: received ${describe(
+              value,
+            )} which doesn't match any schema`,
+          ],
+    ),
+};
+
+/** Checks if a value is a schema created using `schema`. */
+export const isSchema = (value: unknown): value is Schema =>
+  typeof (value as Schema | undefined)?.check === 'function';
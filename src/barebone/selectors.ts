@@ -0,0 +1,130 @@
+import type {
+  ComputedOptions,
+  ComputedValues,
+  Selector,
+  SelectorResults,
+  Store,
+} from './types';
+import type { StateStore } from './state-store';
+
+/**
+ * Creates a memoized selector. The result is only recalculated
+ * when the result of one of the input selectors changes.
+ *
+ * The same selector can be shared between components, actions and
+ * `options.computed`.
+ *
+ * @param inputSelectors Selectors whose results are passed to `combiner`.
+ * @param combiner Calculates the result from the input selector results.
+ *
+ * @example
+ * const selectDoneItems = createSelector(
+ *   [(state: Todos) => state.items],
+ *   (items) => items.filter((item) => item.done),
+ * );
+ */
+export const createSelector = <
+  Inputs extends [Selector, ...Selector[]],
+  Result,
+>(
+  inputSelectors: [...Inputs],
+  combiner: (...values: SelectorResults<Inputs>) => Result,
+): Selector<Parameters<Inputs[0]>[0], Result> => {
+  //
+  let lastValues: unknown[] | undefined;
+  let lastResult: Result;
+
+  return (state) => {
+    const values = inputSelectors.map((select) => select(state));
+    const hasChanged =
+      !lastValues ||
+      values.some((value, index) => value !== lastValues?.[index]);
+
+    if (hasChanged) {
+      lastValues = values;
+      lastResult = combiner(...(values as SelectorResults<Inputs>));
+    }
+    return lastResult;
+  };
+};
+
+/**
+ * Memoize a selector so it's only called once for each state.
+ *
+ * Results for object states are kept for as long as the state is,
+ * so components comparing an old and a new state don't cause the
+ * values to be recalculated.
+ */
+const memoizeSelector = <State, Result>(select: Selector<State, Result>) => {
+  const results = new WeakMap<object, Result>();
+  let hasResult = false;
+  let lastState: State;
+  let lastResult: Result;
+
+  return (state: State) => {
+    if (typeof state === 'object' && state !== null) {
+      if (!results.has(state)) {
+        results.set(state, select(state));
+      }
+      return results.get(state) as Result;
+    }
+    if (!hasResult || state !== lastState) {
+      hasResult = true;
+      lastState = state;
+      lastResult = select(state);
+    }
+    return lastResult;
+  };
+};
+
+/**
+ * Creates the values from `options.computed`.
+ *
+ * @param stateStore The store the values are derived from.
+ * @param computedOptions Selectors for each value.
+ * @returns `computed`, values for the latest state and `getComputed`
+ * for getting the values of a specific store snapshot.
+ */
+export const createComputed = <
+  Name extends string,
+  State,
+  Computed extends ComputedOptions<State>,
+>(
+  stateStore: StateStore<Name, State>,
+  computedOptions?: Computed,
+) => {
+  //
+  const selectors = {} as Record<keyof Computed, Selector<State>>;
+  for (const key in computedOptions) {
+    selectors[key] = memoizeSelector(computedOptions[key]);
+  }
+
+  // Values are calculated when they are accessed.
+  const createValues = (getState: () => State) => {
+    const values = {} as ComputedValues<Computed>;
+    for (const key in selectors) {
+      Object.defineProperty(values, key, {
+        get: () => selectors[key](getState()),
+        enumerable: true,
+      });
+    }
+    return values;
+  };
+
+  const computed = createValues(() => stateStore.getState());
+
+  // Keep one set of values for each snapshot, so the values stay the
+  // same for as long as the snapshot does.
+  const snapshotValues = new WeakMap<object, ComputedValues<Computed>>();
+
+  const getComputed = (store: Store<Name, State>) => {
+    let values = snapshotValues.get(store);
+    if (!values) {
+      values = createValues(() => store[stateStore.stateName]);
+      snapshotValues.set(store, values);
+    }
+    return values;
+  };
+
+  return { computed, getComputed };
+};
@@ -0,0 +1,125 @@
+import {
+  createContext,
+  createElement,
+  type ReactElement,
+  type ReactNode,
+} from 'react';
+import type { SnapshotStore, Store } from './types';
+import { storeRegistry, type StoreRegistry } from './registry';
+
+/** Name of the global variable `getScript` assigns the state to. */
+const DEFAULT_GLOBAL_NAME = '__BAREBONE_STATE__';
+
+/** Keeps track of the stores used while rendering on the server. */
+export interface StoreCollector {
+  /** Adds a store, called by `useStore` while rendering. */
+  collect(store: SnapshotStore): void;
+  /** The state of each collected store by name. */
+  getState(): Store;
+  /**
+   * Returns a script tag that assigns the state of the collected
+   * stores to `window[globalName]`, call after rendering finishes.
+   * @param options.globalName Defaults to `'__BAREBONE_STATE__'`.
+   * @param options.nonce Nonce for Content Security Policy.
+   */
+  getScript(options?: { globalName?: string; nonce?: string }): string;
+  /** Wrap the app with the provider to collect its stores. */
+  Provider: (props: { children?: ReactNode }) => ReactElement;
+}
+
+/** The collector of the current server render, if there is one. */
+export const StoreCollectorContext = createContext<StoreCollector | null>(null);
+
+const escapedCharacters: Record<string, string> = {
+  '<': '\\u003c',
+  '>': '\\u003e',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029',
+};
+
+/**
+ * Converts a state to JSON that is safe to put inside of a script
+ * tag. Characters that could close the tag or start HTML, along with
+ * line terminators that aren't valid in JavaScript strings, are
+ * escaped.
+ */
+export const serializeState = (state: unknown) =>
+  (JSON.stringify(state) ?? 'null').replace(
+    /[<>&\u2028\u2029]/g,
+    (character) => escapedCharacters[character],
+  );
+
+const escapeAttribute = (value: string) =>
+  value.replace(/[&"<>]/g, (character) => `&#${character.charCodeAt(0)};`);
+
+/**
+ * Creates a collector for the stores used while rendering on the
+ * server. Create one for each request.
+ *
+ * @example
+ * const collector = createStoreCollector();
+ * const html = renderToString(
+ *   <collector.Provider>
+ *     <App />
+ *   </collector.Provider>,
+ * );
+ * response.send(`${html}${collector.getScript()}`);
+ */
+export const createStoreCollector = (): StoreCollector => {
+  const stores = new Set<SnapshotStore>();
+
+  const collector: StoreCollector = {
+    collect: (store) => {
+      stores.add(store);
+    },
+    // The current state, including updates made by actions before
+    // rendering.
+    getState: () =>
+      Object.assign({}, ...[...stores].map((store) => store.getSnapshot())),
+    getScript: ({ globalName = DEFAULT_GLOBAL_NAME, nonce } = {}) => {
+      const nonceAttribute =
+        nonce === undefined ? '' : ` nonce="${escapeAttribute(nonce)}"`;
+      return (
+        `<script${nonceAttribute}>window[${serializeState(globalName)}]=` +
+        `${serializeState(collector.getState())};</script>`
+      );
+    },
+    Provider: ({ children }) =>
+      createElement(
+        StoreCollectorContext.Provider,
+        { value: collector },
+        children,
+      ),
+  };
+  return collector;
+};
+
+/**
+ * Sets the state of each store in the payload created on the server.
+ * Stores are found by name in the registry, call before the first
+ * render so `useStore` returns the same state while hydrating.
+ *
+ * @param payload The state of each store by name.
+ * @param registry Defaults to the global `storeRegistry`.
+ * @returns The names in the payload without a store in the registry.
+ *
+ * @example
+ * hydrateStores(window.__BAREBONE_STATE__);
+ * hydrateRoot(document.getElementById('root'), <App />);
+ */
+export const hydrateStores = (
+  payload: Store,
+  registry: StoreRegistry = storeRegistry,
+) => {
+  const missingNames: string[] = [];
+  Object.keys(payload).forEach((name) => {
+    const stateStore = registry.get(name);
+    if (stateStore) {
+      stateStore.hydrate(payload[name]);
+    } else {
+      missingNames.push(name);
+    }
+  });
+  return missingNames;
+};
@@ -1,28 +1,70 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type {
   EqualityFn,
+  PatchListener,
   StateListeners,
   Store,
   StoreChangeListener,
 } from './types';
+import { replaceEqualDeep } from './structural-sharing';
+import { addToBatch, isBatching } from './batch';
+import { createPatches } from './patches';
+import { deepFreeze } from './utils';
 
 export class StateStore<Name extends string = string, State = any> {
   stateListeners: StateListeners<Store<Name, State>>;
+  /** Listeners for the JSON Patches of each update. */
+  patchListeners: Set<PatchListener>;
   store: Store<Name, State>;
   stateName: Name;
+  /**
+   * Immutable copy of the store, a new object is created every
+   * time the state updates so it can be compared by reference.
+   */
+  snapshot: Store<Name, State>;
+  /**
+   * Snapshot use while rendering on the server and during hydration.
+   * Same as `snapshot` until `hydrate` is called.
+   */
+  serverSnapshot: Store<Name, State>;
+  /** Whether `serverSnapshot` was set by `hydrate`. */
+  isHydrated: boolean;
+  initialState: State;
+  /** Whether the state is deep frozen so it can't be mutated. */
+  freeze: boolean;
 
-  constructor(stateName: Name, state: State) {
+  /**
+   * @param stateName The name of the state in the store.
+   * @param state The initial state.
+   * @param options.freeze Deep freeze the state so mutating it throws.
+   */
+  constructor(
+    stateName: Name,
+    state: State,
+    { freeze = false }: { freeze?: boolean } = {},
+  ) {
     this.stateListeners = new Map();
+    this.patchListeners = new Set();
     this.stateName = stateName;
+    this.freeze = freeze;
+    if (freeze) {
+      deepFreeze(state);
+    }
+    this.initialState = state;
     this.store = { [stateName]: state } as Store<Name, State>;
+    this.snapshot = { [stateName]: state } as Store<Name, State>;
+    this.serverSnapshot = this.snapshot;
+    this.isHydrated = false;
   }
 
   /**
    * Subscribe to store updates and return the unsubscribe function.
+   *
+   * Listeners without an equality function are called on every update.
    */
   subscribe(
     storeChangeListener: StoreChangeListener<Store<Name, State>>,
-    equalFn: EqualityFn<Store<Name, State>>,
+    equalFn?: EqualityFn<Store<Name, State>>,
   ) {
     if (this.stateListeners.has(storeChangeListener)) {
       return;
@@ -41,25 +83,125 @@ export class StateStore<Name extends string = string, State = any> {
     this.stateListeners.delete(storeChangeListener);
   }
 
+  /**
+   * Listen for the JSON Patches of every update and return the
+   * function for removing the listener. Patches are only created
+   * while there are listeners.
+   */
+  onPatches(listener: PatchListener) {
+    this.patchListeners.add(listener);
+    return () => {
+      this.patchListeners.delete(listener);
+    };
+  }
+
   /**
    * Update the store, check each listener to see if each local state
    * should be updated as well.
+   *
+   * The store is updated before any listener is called so that
+   * `getSnapshot` always returns the latest state when a listener runs.
+   *
+   * The state is kept by reference, parts of the new state that are
+   * deeply equal to the old state are replaced with the old values.
+   *
+   * Listeners are notified once after the batch finishes when called
+   * inside of `batch`, patch listeners get the patches of the whole
+   * batch at the same time.
    */
-  updateState(newState: State) {
-    const newStore = { [this.stateName]: newState } as Store;
+  updateState(state: State) {
+    const oldStore = this.snapshot;
+    const oldState = this.getState();
+    const newState = replaceEqualDeep(oldState, state);
+    if (this.freeze) {
+      deepFreeze(newState);
+    }
+
+    this.setSnapshot({ [this.stateName]: newState } as Store<Name, State>);
 
+    if (isBatching()) {
+      addToBatch(this, oldStore);
+      return;
+    }
+    this.notify(oldStore);
+  }
+
+  /**
+   * Check each listener to see if its local state should be updated
+   * with the current snapshot. Patch listeners are called first.
+   * @param oldStore The snapshot before the update.
+   */
+  notify(oldStore: Store<Name, State>) {
+    const newStore = this.snapshot;
+    this.notifyPatches(oldStore);
     // Check to see if the new state meets the update requirements
     // set by the component before updating.
     this.stateListeners.forEach((listener) => {
-      if (listener.equalFn) {
-        if (listener.equalFn(newStore, this.store)) {
-          listener.setState(JSON.parse(JSON.stringify(newStore)));
-        }
-      } else {
+      if (!listener.equalFn || listener.equalFn(newStore, oldStore)) {
         listener.setState(newStore);
       }
     });
-    this.store[this.stateName] = newState;
+  }
+
+  /**
+   * Call the patch listeners with the patches from `oldStore` to the
+   * current snapshot, if the state changed.
+   */
+  notifyPatches(oldStore: Store<Name, State>) {
+    const oldState = oldStore[this.stateName];
+    const newState = this.getState();
+    if (!this.patchListeners.size || newState === oldState) {
+      return;
+    }
+    const { patches, inversePatches } = createPatches(oldState, newState);
+    this.patchListeners.forEach((listener) =>
+      listener(patches, inversePatches),
+    );
+  }
+
+  /**
+   * Set the store back to a snapshot without notifying listeners.
+   */
+  restore(snapshot: Store<Name, State>) {
+    this.setSnapshot(snapshot);
+  }
+
+  /**
+   * Replace the snapshot, the server snapshot follows it so updates
+   * made before rendering on the server are rendered.
+   */
+  setSnapshot(snapshot: Store<Name, State>) {
+    this.snapshot = snapshot;
+    this.store[this.stateName] = snapshot[this.stateName];
+    if (!this.isHydrated) {
+      this.serverSnapshot = snapshot;
+    }
+  }
+
+  /**
+   * Set the state rendered on the server, both `getSnapshot` and
+   * `getServerSnapshot` return it afterwards. Use before the first
+   * render on the client so the markup matches when hydrating.
+   *
+   * Later updates don't change the server snapshot.
+   */
+  hydrate(state: State) {
+    const oldStore = this.snapshot;
+    const newState = replaceEqualDeep(this.getState(), state);
+    if (this.freeze) {
+      deepFreeze(newState);
+    }
+    this.serverSnapshot = { [this.stateName]: newState } as Store<Name, State>;
+    this.isHydrated = true;
+    this.restore(this.serverSnapshot);
+    this.notify(oldStore);
+  }
+
+  /**
+   * Set the store back to its initial state.
+   */
+  reset() {
+    this.updateState(this.initialState);
   }
 
   getStore() {
@@ -69,4 +211,19 @@ export class StateStore<Name extends string = string, State = any> {
   getState() {
     return this.store[this.stateName];
   }
+
+  /**
+   * Returns the current snapshot of the store. The same object is
+   * returned until the state is updated.
+   */
+  getSnapshot() {
+    return this.snapshot;
+  }
+
+  /**
+   * Returns the snapshot use when rendering on the server.
+   */
+  getServerSnapshot() {
+    return this.serverSnapshot;
+  }
 }
@@ -0,0 +1,144 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useState,
+  type ReactNode,
+} from 'react';
+import type {
+  Actions,
+  AsyncActions,
+  ComputedOptions,
+  ComputedValues,
+  CreateStoreResult,
+  EqualityFn,
+  Store,
+  StoreOptions,
+} from './types';
+import { createStore } from './create-store';
+
+/**
+ * Creates a store where each `Provider` has its own instance of the
+ * store, instead of a single instance shared by the whole app. Use
+ * for server rendering, where each request needs its own state, and
+ * for isolating tests.
+ *
+ * The hooks use the instance of the nearest `Provider` and throw
+ * when there isn't one. Instances aren't added to a registry unless
+ * `options.registry` is set.
+ *
+ * @param options Same as the options of `createStore`.
+ * @returns { Provider, useStore, useActions, useStoreInstance, Context }
+ *
+ * @example
+ * const { Provider, useStore, useActions } = createStoreContext({
+ *   name: 'counter',
+ *   initialState: { count: 0 },
+ *   actions: { increment: (state) => ({ count: state.count + 1 }) },
+ * });
+ *
+ * const Counter = () => {
+ *   const count = useStore((store) => store.counter.count);
+ *   const { actions } = useActions();
+ *   return <button onClick={() => actions.increment()}>{count}</button>;
+ * };
+ *
+ * <Provider initialState={{ count: 10 }}>
+ *   <Counter />
+ * </Provider>
+ */
+export const createStoreContext = <
+  Name extends string,
+  State,
+  ActionOption extends Actions<State>,
+  AsyncActionOptions extends AsyncActions<State>,
+  Computed extends ComputedOptions<State>,
+  SelectFn extends (
+    state: Store<Name, State>,
+    computed: ComputedValues<Computed>,
+  ) => ReturnType<SelectFn>,
+>(
+  options: StoreOptions<
+    State,
+    Name,
+    ActionOption,
+    AsyncActionOptions,
+    Computed
+  >,
+) => {
+  //
+  type Instance = CreateStoreResult<
+    State,
+    Name,
+    SelectFn,
+    ActionOption,
+    AsyncActionOptions,
+    Computed
+  >;
+
+  const Context = createContext<Instance | null>(null);
+  Context.displayName = `${options.name}StoreContext`;
+
+  /**
+   * Creates an instance of the store for its children.
+   * @param props.initialState Optional, replaces `options.initialState`
+   * for this instance.
+   * @param props.serverState Optional, the state the instance had when
+   * rendering on the server. The instance is hydrated with it, the
+   * same way `hydrateStores` hydrates stores in the registry.
+   */
+  const Provider = ({
+    initialState,
+    serverState,
+    children,
+  }: {
+    initialState?: State;
+    serverState?: State;
+    children?: ReactNode;
+  }) => {
+    const [instance] = useState(() => {
+      const newInstance = createStore<
+        Name,
+        State,
+        ActionOption,
+        AsyncActionOptions,
+        Computed,
+        SelectFn
+      >({
+        ...options,
+        initialState: initialState ?? options.initialState,
+      });
+      if (serverState !== undefined) {
+        newInstance.stateStore.hydrate(serverState);
+      }
+      return newInstance;
+    });
+    return createElement(Context.Provider, { value: instance }, children);
+  };
+
+  /** Returns the whole store instance of the nearest `Provider`. */
+  const useStoreInstance = (): Instance => {
+    const instance = useContext(Context);
+    if (!instance) {
+      throw new Error(
+        `No Provider found for the store "${options.name}", ` +
+          'wrap the component with the Provider from createStoreContext.',
+      );
+    }
+    return instance;
+  };
+
+  /** Same as `useStore` from `createStore` for the nearest instance. */
+  const useStore = <StoreSelect extends SelectFn>(
+    select: StoreSelect,
+    equalFn?: EqualityFn<Store<Name, State>>,
+  ): ReturnType<StoreSelect> => useStoreInstance().useStore(select, equalFn);
+
+  /** Returns the actions of the nearest instance. */
+  const useActions = () => {
+    const { actions, asyncActions, abortAsyncAction } = useStoreInstance();
+    return { actions, asyncActions, abortAsyncAction };
+  };
+
+  return { Provider, useStore, useActions, useStoreInstance, Context };
+};
@@ -0,0 +1,84 @@
+/**
+ * Checks if a value is an object created from an object literal,
+ * `new Object()` or `Object.create(null)`.
+ */
+export const isPlainObject = (
+  value: unknown,
+): value is Record<PropertyKey, unknown> => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Returns `next` with every part that is deeply equal to `prev`
+ * replaced by the one from `prev`, so unchanged parts of the state
+ * keep their identity across updates.
+ *
+ * Only plain objects and arrays are compared, every other value
+ * e.g. `Date`, `Map`, `Set` or class instances are compared by reference.
+ * `next` itself is returned when none of its children were replaced.
+ */
+export const replaceEqualDeep = <T>(
+  prev: unknown,
+  next: T,
+  visited: WeakSet<object> = new WeakSet(),
+): T => {
+  if (Object.is(prev, next)) {
+    return prev as T;
+  }
+
+  const isArray = Array.isArray(prev) && Array.isArray(next);
+  if (!isArray && !(isPlainObject(prev) && isPlainObject(next))) {
+    return next;
+  }
+
+  // Guard against circular references.
+  if (visited.has(next as object)) {
+    return next;
+  }
+  visited.add(next as object);
+
+  const prevValue = prev as Record<PropertyKey, unknown>;
+  const nextValue = next as Record<PropertyKey, unknown>;
+  const prevKeys = Object.keys(prevValue);
+  const nextKeys = Object.keys(nextValue);
+
+  let result: Record<PropertyKey, unknown> | undefined;
+  let equalCount = 0;
+
+  for (const key of nextKeys) {
+    const prevChild = prevValue[key];
+    const nextChild = nextValue[key];
+    const value =
+      prevChild === nextChild
+        ? nextChild
+        : replaceEqualDeep(prevChild, nextChild, visited);
+
+    // Only copy `next` once one of its children has been replaced.
+    if (value !== nextChild) {
+      if (!result) {
+        result = (
+          isArray
+            ? (next as unknown[]).slice()
+            : Object.assign(Object.create(Object.getPrototypeOf(next)), next)
+        ) as Record<PropertyKey, unknown>;
+      }
+      result[key] = value;
+    }
+    if (
+      value === prevChild &&
+      (prevChild !== undefined ||
+        Object.prototype.hasOwnProperty.call(prevValue, key))
+    ) {
+      equalCount++;
+    }
+  }
+
+  if (prevKeys.length === nextKeys.length && equalCount === prevKeys.length) {
+    return prev as T;
+  }
+  return (result ?? next) as T;
+};
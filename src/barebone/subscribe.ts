@@ -0,0 +1,125 @@
+import type { SnapshotStore, Store, StoreSubscribe } from './types';
+
+/**
+ * The Svelte store contract, `run` is called with the current value
+ * when subscribing and again every time the value changes.
+ */
+export interface Readable<T> {
+  subscribe(run: (value: T) => void, invalidate?: () => void): () => void;
+}
+
+/** Receives the values of an `Observable`. */
+export interface Observer<T> {
+  next?: (value: T) => void;
+  error?: (error: unknown) => void;
+  complete?: () => void;
+}
+
+export interface Subscription {
+  unsubscribe(): void;
+}
+
+/**
+ * Minimal observable that works with libraries using
+ * `Symbol.observable`, such as RxJS `from`.
+ */
+export interface Observable<T> {
+  subscribe(observer: Observer<T> | ((value: T) => void)): Subscription;
+}
+
+/** Same key RxJS and Redux use for observable interop. */
+const observableKey: symbol | '@@observable' =
+  (typeof Symbol === 'function' &&
+    (Symbol as { observable?: symbol }).observable) ||
+  '@@observable';
+
+/**
+ * Creates the `subscribe` function of a store. Unlike
+ * `stateStore.subscribe` every call adds a new listener, so the same
+ * listener can be subscribed more than once.
+ *
+ * @param stateStore The store being subscribed to.
+ * @param getComputed Returns the computed values for a store snapshot.
+ */
+export const createSubscribe =
+  <S extends Store, Computed>(
+    stateStore: SnapshotStore<S>,
+    getComputed: (store: S) => Computed = () => ({}) as Computed,
+  ): StoreSubscribe<S, Computed> =>
+  (selector, listener, { equalityFn = Object.is, fireImmediately } = {}) => {
+    const select = (store: S) => selector(store, getComputed(store));
+    let value = select(stateStore.getSnapshot());
+
+    // Select from the latest snapshot, an action called by another
+    // listener can update the store while the listeners are notified.
+    const unsubscribe = stateStore.subscribe(() => {
+      const nextValue = select(stateStore.getSnapshot());
+      if (equalityFn(nextValue, value)) {
+        return;
+      }
+      const previousValue = value;
+      value = nextValue;
+      listener(nextValue, previousValue);
+    });
+
+    if (fireImmediately) {
+      listener(value, value);
+    }
+    return () => {
+      unsubscribe && unsubscribe();
+    };
+  };
+
+/** Selects the whole store. */
+const selectStore = <S, T>(store: S) => store as unknown as T;
+
+/**
+ * Turns a store into a Svelte readable store, it can be used with
+ * `$store` inside of Svelte components.
+ *
+ * @param store A store created with `createStore` or `createVanillaStore`.
+ * @param selector Optional, selects the value of the readable store.
+ * Defaults to the whole store.
+ *
+ * @example
+ * const count = toReadable(counterStore, (store) => store.counter.count);
+ */
+export const toReadable = <S extends Store, Computed, T = S>(
+  store: { subscribe: StoreSubscribe<S, Computed> },
+  selector: (store: S, computed: Computed) => T = selectStore,
+): Readable<T> => ({
+  subscribe: (run) =>
+    store.subscribe(selector, (value) => run(value), {
+      fireImmediately: true,
+    }),
+});
+
+/**
+ * Turns a store into an observable. The observer receives the
+ * current value when subscribing and again every time it changes.
+ *
+ * @param store A store created with `createStore` or `createVanillaStore`.
+ * @param selector Optional, selects the values that are emitted.
+ * Defaults to the whole store.
+ *
+ * @example
+ * const count$ = from(toObservable(counterStore, (s) => s.counter.count));
+ */
+export const toObservable = <S extends Store, Computed, T = S>(
+  store: { subscribe: StoreSubscribe<S, Computed> },
+  selector: (store: S, computed: Computed) => T = selectStore,
+): Observable<T> => {
+  const observable: Observable<T> = {
+    subscribe: (observer) => {
+      const next =
+        typeof observer === 'function'
+          ? observer
+          : (value: T) => observer.next?.(value);
+      const unsubscribe = store.subscribe(selector, (value) => next(value), {
+        fireImmediately: true,
+      });
+      return { unsubscribe };
+    },
+  };
+  return Object.assign(observable, { [observableKey]: () => observable });
+};
@@ -0,0 +1,96 @@
+import type { Store, SyncMessage, SyncOptions } from './types';
+import type { StateStore } from './state-store';
+import { createPartialize, mergePartialState } from './utils';
+import { batch } from './batch';
+
+/**
+ * Keeps the store in sync with stores in other tabs. Every update
+ * is sent to the other tabs and updates from other tabs are applied
+ * to the store without being sent back.
+ *
+ * Does nothing when `BroadcastChannel` isn't available.
+ *
+ * @param stateStore The store being synced.
+ * @param options Sync options, see `SyncOptions`.
+ */
+export const syncStore = <State>(
+  stateStore: StateStore<string, State>,
+  options: SyncOptions<State>,
+) => {
+  if (typeof BroadcastChannel === 'undefined') {
+    return;
+  }
+
+  const { conflict = 'last-writer-wins', include, exclude } = options;
+  const partialize = createPartialize(include, exclude);
+
+  const channel = new BroadcastChannel(options.channel);
+  const tabId = Math.random().toString(36).slice(2);
+  let lastUpdatedAt = 0;
+  let lastUpdatedBy = tabId;
+  // The snapshot set by the last update received from another tab.
+  let remoteSnapshot: Store | undefined;
+
+  stateStore.subscribe((store) => {
+    // Don't echo updates received from other tabs. Updates made by
+    // listeners in response to them are sent.
+    if (store === remoteSnapshot) {
+      return;
+    }
+    // Local updates are always newer than the last update received,
+    // even when both happened within the same millisecond.
+    lastUpdatedAt = Math.max(Date.now(), lastUpdatedAt + 1);
+    lastUpdatedBy = tabId;
+    const message: SyncMessage = {
+      state: partialize(stateStore.getState()),
+      timestamp: lastUpdatedAt,
+      sender: tabId,
+    };
+    channel.postMessage(message);
+  });
+
+  /** Whether a remote update is newer than the local state. */
+  const isNewer = ({ timestamp, sender }: SyncMessage) => {
+    if (timestamp !== lastUpdatedAt) {
+      return timestamp > lastUpdatedAt;
+    }
+    // Use the tab id to pick the same winner in every tab.
+    return sender >= lastUpdatedBy;
+  };
+
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+    const message = event.data;
+    if (message.sender === tabId) {
+      return;
+    }
+
+    const localState = stateStore.getState();
+    const remoteState = mergePartialState(
+      localState,
+      message.state as Partial<State>,
+    );
+
+    let newState: State;
+    if (conflict === 'last-writer-wins') {
+      if (!isNewer(message)) {
+        return;
+      }
+      newState = remoteState;
+    } else {
+      newState = conflict(localState, remoteState, {
+        localTimestamp: lastUpdatedAt,
+        remoteTimestamp: message.timestamp,
+      });
+    }
+
+    if (isNewer(message)) {
+      lastUpdatedAt = message.timestamp;
+      lastUpdatedBy = message.sender;
+    }
+    // Listeners are notified after the snapshot is known.
+    batch(() => {
+      stateStore.updateState(newState);
+      remoteSnapshot = stateStore.getSnapshot();
+    });
+  };
+};
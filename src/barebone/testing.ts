@@ -0,0 +1,200 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { StateStore } from './state-store';
+import { StoreRegistry, storeRegistry } from './registry';
+import { isPlainObject } from './structural-sharing';
+
+type StoreLike<State> =
+  | StateStore<string, State>
+  | { stateStore: StateStore<string, State> };
+
+const getStateStore = <State>(store: StoreLike<State>) =>
+  store instanceof StateStore ? store : store.stateStore;
+
+/**
+ * Set every store in the registry back to its initial state, use in
+ * `afterEach` so tests don't depend on each other. Stores that
+ * aren't in the registry aren't reset.
+ *
+ * @param registry Optional, defaults to the global `storeRegistry`.
+ */
+export const resetAllStores = (registry: StoreRegistry = storeRegistry) => {
+  registry.resetAll();
+};
+
+/**
+ * Update the state of a store without calling an action. Plain
+ * object states are merged with `partial`, other states are
+ * replaced by it.
+ *
+ * @param store A store created with `createStore`, or its `stateStore`.
+ * @param partial The properties to update.
+ */
+export const setStoreState = <State>(
+  store: StoreLike<State>,
+  partial: Partial<State>,
+) => {
+  const stateStore = getStateStore(store);
+  const state = stateStore.getState();
+  stateStore.updateState(
+    isPlainObject(state) && isPlainObject(partial)
+      ? { ...state, ...partial }
+      : (partial as State),
+  );
+};
+
+/** Keeps track of the calls to an action. */
+export interface ActionSpy<Fn extends (...payload: any[]) => any> {
+  /** The params of each call, in order. */
+  calls: Parameters<Fn>[];
+}
+
+export type ActionSpies<ActionsObject> = {
+  [key in keyof ActionsObject]: ActionsObject[key] extends (
+    ...payload: any[]
+  ) => any
+    ? ActionSpy<ActionsObject[key]>
+    : never;
+};
+
+const spyOn = <ActionsObject extends Record<string, any>>(
+  actions: ActionsObject,
+) => {
+  const spies = {} as ActionSpies<ActionsObject>;
+  const originals = { ...actions };
+
+  for (const key in originals) {
+    const spy: ActionSpy<ActionsObject[typeof key]> = { calls: [] };
+    spies[key] = spy as ActionSpies<ActionsObject>[typeof key];
+    actions[key] = ((...payload: Parameters<ActionsObject[typeof key]>) => {
+      spy.calls.push(payload);
+      return originals[key](...payload);
+    }) as ActionsObject[typeof key];
+  }
+
+  const restore = () => Object.assign(actions, originals);
+  return { spies, restore };
+};
+
+/**
+ * Records every call to the actions and async actions of a store.
+ * The actions still run, call `restore` to remove the spies.
+ *
+ * @param store A store created with `createStore`.
+ * @returns { actions, asyncActions, clear, restore }
+ *
+ * @example
+ * const spies = spyOnActions(counterStore);
+ * fireEvent.click(button);
+ * expect(spies.actions.add.calls).toEqual([[1]]);
+ */
+export const spyOnActions = <
+  Store extends {
+    actions: Record<string, any>;
+    asyncActions: Record<string, any>;
+  },
+>(
+  store: Store,
+) => {
+  const actions = spyOn(store.actions);
+  const asyncActions = spyOn(store.asyncActions);
+
+  /** Remove the recorded calls. */
+  const clear = () => {
+    [actions.spies, asyncActions.spies].forEach((spies) =>
+      Object.values(spies).forEach((spy: ActionSpy<any>) => {
+        spy.calls = [];
+      }),
+    );
+  };
+
+  /** Put back the original actions. */
+  const restore = () => {
+    actions.restore();
+    asyncActions.restore();
+  };
+
+  return {
+    actions: actions.spies as ActionSpies<Store['actions']>,
+    asyncActions: asyncActions.spies as ActionSpies<Store['asyncActions']>,
+    clear,
+    restore,
+  };
+};
+
+/**
+ * Waits until the state of a store passes `predicate`, use for
+ * testing async flows.
+ *
+ * @param store A store created with `createStore`, or its `stateStore`.
+ * @param predicate Called with the state every time it updates.
+ * @param options.timeout Optional, milliseconds to wait before
+ * rejecting. Defaults to 1000.
+ * @returns The state that passed `predicate`.
+ */
+export const waitForStore = <State>(
+  store: StoreLike<State>,
+  predicate: (state: State) => boolean,
+  { timeout = 1000 }: { timeout?: number } = {},
+) => {
+  const stateStore = getStateStore(store);
+
+  return new Promise<State>((resolve, reject) => {
+    if (predicate(stateStore.getState())) {
+      resolve(stateStore.getState());
+      return;
+    }
+
+    const listener = () => {
+      const state = stateStore.getState();
+      if (predicate(state)) {
+        done();
+        resolve(state);
+      }
+    };
+    const timer = setTimeout(() => {
+      done();
+      reject(
+        new Error(
+          `Timed out after ${timeout}ms waiting for the store ` +
+            `"${stateStore.stateName}".`,
+        ),
+      );
+    }, timeout);
+    const unsubscribe = stateStore.subscribe(listener);
+    const done = () => {
+      clearTimeout(timer);
+      unsubscribe && unsubscribe();
+    };
+  });
+};
+
+/**
+ * Counts how many times a hook renders, use for checking that a
+ * component only rerenders when the state it selects changes.
+ *
+ * @param hook The hook to count, e.g. a call to `useStore`.
+ * @returns `useHook`, which runs `hook` and counts the render, along
+ * with the number of `renders` and `reset` for starting again.
+ *
+ * @example
+ * const counter = countRenders(() => useStore((s) => s.counter.count));
+ * renderHook(counter.useHook);
+ * act(() => actions.setLabel('label'));
+ * expect(counter.renders).toBe(1);
+ */
+export const countRenders = <Params extends unknown[], Result>(
+  hook: (...params: Params) => Result,
+) => {
+  const counter = {
+    /** Number of times the hook has rendered. */
+    renders: 0,
+    useHook: (...params: Params) => {
+      counter.renders++;
+      return hook(...params);
+    },
+    reset: () => {
+      counter.renders = 0;
+    },
+  };
+  return counter;
+};
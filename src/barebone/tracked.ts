@@ -0,0 +1,98 @@
+import { isPlainObject } from './structural-sharing';
+
+/** Recorded when the keys of an object are listed. */
+const ALL_KEYS = Symbol('allKeys');
+
+/** The properties read from each object of a state. */
+type Affected = WeakMap<object, Set<PropertyKey>>;
+
+const isTrackable = (value: unknown): value is Record<PropertyKey, unknown> =>
+  isPlainObject(value) || Array.isArray(value);
+
+/**
+ * Checks if any of the properties read from `prev` are different
+ * in `next`. Objects that were used without reading any of their
+ * properties are compared by reference.
+ */
+const isChanged = (prev: unknown, next: unknown, affected: Affected) => {
+  if (Object.is(prev, next)) {
+    return false;
+  }
+  if (!isTrackable(prev) || !isTrackable(next)) {
+    return true;
+  }
+  const keys = affected.get(prev);
+  if (!keys || keys.has(ALL_KEYS)) {
+    return true;
+  }
+  for (const key of keys) {
+    if (isChanged(prev[key], next[key], affected)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Creates proxies of a state that record which properties are read.
+ * Only plain objects and arrays are tracked.
+ *
+ * The same proxy is returned for an object every time it's tracked,
+ * so proxies can be compared by reference between renders.
+ *
+ * @returns `track` for creating the proxy of a state, `isChanged` for
+ * checking if the properties read since the last `reset` changed.
+ */
+export const createTracker = () => {
+  let affected: Affected = new WeakMap();
+  const proxies = new WeakMap<object, object>();
+
+  const record = (value: object, key: PropertyKey) => {
+    const keys = affected.get(value) ?? new Set();
+    keys.add(key);
+    affected.set(value, keys);
+  };
+
+  const track = <T>(value: T): T => {
+    if (!isTrackable(value)) {
+      return value;
+    }
+    let proxy = proxies.get(value);
+    if (!proxy) {
+      // The get trap of a frozen object has to return its own values,
+      // so a copy is used as the target instead.
+      const target = !Object.isFrozen(value)
+        ? value
+        : Array.isArray(value)
+        ? [...value]
+        : { ...value };
+
+      proxy = new Proxy(target, {
+        get: (_target, key) => {
+          record(value, key);
+          return track(Reflect.get(value, key));
+        },
+        has: (_target, key) => {
+          record(value, key);
+          return Reflect.has(value, key);
+        },
+        ownKeys: () => {
+          record(value, ALL_KEYS);
+          return Reflect.ownKeys(value);
+        },
+      });
+      proxies.set(value, proxy);
+    }
+    return proxy as T;
+  };
+
+  return {
+    track,
+    /** Forget the properties read so far. */
+    reset: () => {
+      affected = new WeakMap();
+    },
+    isChanged: (prev: unknown, next: unknown) =>
+      isChanged(prev, next, affected),
+  };
+};
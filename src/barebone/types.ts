@@ -1,9 +1,15 @@
 /* eslint-disable  @typescript-eslint/no-explicit-any */
+import type { StateStore } from './state-store';
+import type { StoreRegistry } from './registry';
+import type { Schema } from './schema';
+import type { StateValidationError } from './validate';
+
 export interface StoreOptions<
   State,
   Name extends string,
   UserDefinedActions extends Actions<State>,
   UserDefinedActionsAsync extends AsyncActions<State>,
+  Computed extends ComputedOptions<State> = ComputedOptions<State>,
 > {
   /**
    * A name use to identify the store. This value is also
@@ -19,7 +25,8 @@ export interface StoreOptions<
    * params for passing in data when the action is called.
    *
    * Action functions must return a new state and not
-   * just mutating the existing state.
+   * just mutating the existing state. Wrap an action with `draft`
+   * to mutate a draft of the state instead.
    *
    * For async functions, use `options.asyncActions`.
    *
@@ -41,6 +48,14 @@ export interface StoreOptions<
    * called. This is so that the latest store state is always
    * available inside the async function.
    *
+   * `getState.signal` is an `AbortSignal` that's aborted when the
+   * call is cancelled, see `options.concurrency`.
+   *
+   * Use an object with `optimistic`, `run` and `commit` for
+   * updating the state right away and rolling it back if the
+   * async work fails. Updates made in the meantime are replayed
+   * on top of the rolled back state.
+   *
    * Async actions accepts any number of additional params
    * for passing in data when the action is called.
    *
@@ -48,12 +63,409 @@ export interface StoreOptions<
    * {
    *   // Make a HTTP request for a new counter value.
    *   setCounterAsync: async (getState, url: string) => {
-          const request = await fetch(url).json();
+          const request = await fetch(url, {
+            signal: getState.signal,
+          }).json();
           return request.count;
    *   },
+   *   // Show the new todo right away, remove it if saving fails.
+   *   addTodo: {
+   *     optimistic: (state, todo: Todo) => [...state, todo],
+   *     run: (getState, todo: Todo) => api.saveTodo(todo),
+   *     commit: (state, saved: Todo, todo: Todo) =>
+   *       state.map((item) => (item === todo ? saved : item)),
+   *   },
    * }
    */
   asyncActions?: UserDefinedActionsAsync;
+
+  /**
+   * How each async action handles being called while a previous
+   * call is still running. Defaults to `'takeEvery'` which runs
+   * every call.
+   *
+   * Results of calls that are cancelled or superseded are never
+   * committed to the store.
+   *
+   * @example
+   * {
+   *   concurrency: {
+   *     // Cancel the previous search when searching again.
+   *     search: 'takeLatest',
+   *     // Only save once every second.
+   *     save: { throttle: 1000 },
+   *   },
+   * }
+   */
+  concurrency?: {
+    [key in keyof UserDefinedActionsAsync]?: ConcurrencyPolicy;
+  };
+
+  /**
+   * Functions that are called in order every time an action
+   * updates the state. Each middleware receives information about
+   * the action and a `next` function for passing the state on to
+   * the next middleware, the state is committed to the store
+   * after the last middleware.
+   *
+   * A middleware can observe the update, change the state passed
+   * to `next` or stop the update by not calling `next`.
+   *
+   * @example
+   * {
+   *   middleware: [
+   *     logger(),
+   *     (context, next) => {
+   *       // Ignore updates that set the count below 0.
+   *       if (context.nextState.count >= 0) next(context.nextState);
+   *     },
+   *   ],
+   * }
+   */
+  middleware?: Middleware<State, UserDefinedActions, UserDefinedActionsAsync>[];
+
+  /**
+   * Connect the store to the Redux DevTools browser extension.
+   * Every action is reported with its payload and the state can
+   * be changed from the extension e.g. when time travelling.
+   *
+   * Does nothing if the extension isn't installed.
+   */
+  devtools?: boolean | DevtoolsOptions;
+
+  /**
+   * Keep track of past and future states so that updates can be
+   * undone and redone using `undo` and `redo`.
+   *
+   * @example
+   * {
+   *   // Keep the last 50 states and ignore updates from `setIsUpdating`.
+   *   history: { limit: 50, exclude: ['setIsUpdating'] },
+   * }
+   */
+  history?: HistoryOptions<
+    keyof UserDefinedActions | keyof UserDefinedActionsAsync
+  >;
+
+  /**
+   * Record every action along with a hash of the resulting state.
+   * Use `exportActionLog` to save the log, e.g. for a bug report,
+   * and `replay` to run it again on a new store.
+   */
+  record?: boolean;
+
+  /**
+   * Save the state to a storage and restore it when the store
+   * is created. Use `useHydrated` to check if the state has been
+   * restored when using an async storage.
+   *
+   * @example
+   * {
+   *   persist: {
+   *     storage: createLocalStorage(),
+   *     version: 2,
+   *     migrate: (oldState, oldVersion) => ({ ...oldState, count: 0 }),
+   *     include: ['count'],
+   *   },
+   * }
+   */
+  persist?: PersistOptions<State>;
+
+  /**
+   * Keep the state in sync with stores of the same name in other
+   * tabs using a `BroadcastChannel`.
+   *
+   * @example
+   * {
+   *   sync: { channel: 'counter', include: ['count'] },
+   * }
+   */
+  sync?: SyncOptions<State>;
+
+  /**
+   * Keep the state in sync with a server. Local updates are applied
+   * straight away and sent to the server, they're queued while
+   * offline and rebased on top of the state confirmed by the server.
+   *
+   * @example
+   * {
+   *   remote: { transport: createWebSocketTransport('/todos') },
+   * }
+   */
+  remote?: RemoteOptions<State>;
+
+  /**
+   * Values derived from the state. Each value is only recalculated
+   * when the state changes, or when the results of its input
+   * selectors change if it's created using `createSelector`.
+   *
+   * The values are available as the second param of the `useStore`
+   * select function and through `computed` on the created store.
+   *
+   * @example
+   * {
+   *   computed: {
+   *     total: (state) => state.items.length,
+   *     doneItems: createSelector(
+   *       [(state: Todos) => state.items],
+   *       (items) => items.filter((item) => item.done),
+   *     ),
+   *   },
+   * }
+   */
+  computed?: Computed;
+
+  /**
+   * Called with the JSON Patches (RFC 6902) for every update of the
+   * state and the inverse patches that undo it. Use for syncing the
+   * changes with a server or keeping an audit log.
+   *
+   * Updates inside of `batch` are emitted together when the batch
+   * finishes, updates rolled back by `transaction` aren't emitted.
+   */
+  onPatches?: PatchListener;
+
+  /**
+   * Side effects that run when part of the store changes, the same
+   * as calling `watch` for each reaction. Each effect gets the new and
+   * the previous value along with the actions of the store.
+   *
+   * @example
+   * {
+   *   reactions: {
+   *     loadProfile: {
+   *       selector: (store) => store.user.id,
+   *       effect: (id, _previousId, { asyncActions }) => {
+   *         asyncActions.fetchProfile(id);
+   *       },
+   *     },
+   *   },
+   * }
+   */
+  reactions?: Record<
+    string,
+    Reaction<
+      Store<Name, State>,
+      ComputedValues<Computed>,
+      ReactionContext<UserDefinedActions, UserDefinedActionsAsync>
+    >
+  >;
+
+  /**
+   * Registry the store is added to, use `true` for the global
+   * `storeRegistry`. Stores aren't added to a registry by default.
+   */
+  registry?: StoreRegistry | boolean;
+
+  /**
+   * Checks every state returned by an action before it's committed,
+   * after it went through the middleware. Either a function or a
+   * schema created using `schema`. States that aren't set by an
+   * action, e.g. restored by `persist` or received by `sync`, aren't
+   * checked.
+   *
+   * A function can return `false` or a description of the problem,
+   * or throw, when the state is invalid. Invalid states are never
+   * committed, see `options.onInvalidState`.
+   *
+   * @example
+   * {
+   *   validate: schema.object({ count: schema.number() }),
+   *   // Or
+   *   validate: (state) => state.count >= 0 || 'count is negative',
+   * }
+   */
+  validate?: StateValidator<State>;
+
+  /**
+   * What to do when an action returns an invalid state, defaults
+   * to `'throw'`. Either throw a `StateValidationError`, log it
+   * using `console.warn`, ignore it, or pass it to a function.
+   */
+  onInvalidState?: InvalidStateHandler;
+
+  /**
+   * Deep freeze the state so mutating it throws, defaults to `true`
+   * unless `process.env.NODE_ENV` is `'production'`.
+   */
+  freeze?: boolean;
+
+  /**
+   * Called when an async action throws. When provided, the promise
+   * returned by the action resolves instead of rejecting.
+   *
+   * The status of each async action is available through
+   * `useActionStatus` and `getActionStatus`.
+   */
+  onError?: (
+    error: unknown,
+    action: {
+      name: keyof UserDefinedActionsAsync & string;
+      payload: unknown[];
+    },
+  ) => void;
+}
+
+/**
+ * Checks if a state is valid. Functions return `false` or a
+ * description of the problem, or throw, when the state is invalid.
+ */
+export type StateValidator<State> =
+  | ((state: State) => boolean | string | void)
+  | Schema<State>;
+
+/** What to do with an action that returns an invalid state. */
+export type InvalidStateHandler =
+  | 'throw'
+  | 'warn'
+  | 'ignore'
+  | ((error: StateValidationError) => void);
+
+export interface HistoryOptions<ActionName = string> {
+  /** Max number of past states to keep, defaults to 100. */
+  limit?: number;
+  /** Actions that update the state without being recorded. */
+  exclude?: ActionName[];
+}
+
+/** The value saved to the storage. */
+export interface PersistedState<State = any> {
+  state: Partial<State> | State;
+  version: number;
+}
+
+/**
+ * Storage use for persisting the state. Functions can either
+ * return the result directly or a promise e.g. for IndexedDB.
+ */
+export interface PersistStorage {
+  getItem(key: string): PersistedState | null | Promise<PersistedState | null>;
+  setItem(key: string, value: PersistedState): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface PersistOptions<State> {
+  /** Key the state is saved under, defaults to the store name. */
+  key?: string;
+  /** Where the state is saved, defaults to `localStorage`. */
+  storage?: PersistStorage;
+  /**
+   * Version of the saved state, defaults to 0. Saved states with
+   * a different version are passed to `migrate` or ignored if
+   * `migrate` isn't provided.
+   */
+  version?: number;
+  /** Converts a state saved using an older version. */
+  migrate?: (oldState: any, oldVersion: number) => State | Promise<State>;
+  /** Only save these properties of the state. */
+  include?: (keyof State)[];
+  /** Save every property of the state except for these. */
+  exclude?: (keyof State)[];
+  /** Save at most once every `throttle` milliseconds. */
+  throttle?: number;
+  /** Called when reading or writing the storage fails. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Resolves a state received from another tab with the local state.
+ *
+ * @param localState The current state of the store.
+ * @param remoteState The local state with the received changes applied.
+ * @param info.localTimestamp When the local state was last updated.
+ * @param info.remoteTimestamp When the remote state was updated.
+ * @returns The state to commit to the store.
+ */
+export type SyncConflictResolver<State> = (
+  localState: State,
+  remoteState: State,
+  info: { localTimestamp: number; remoteTimestamp: number },
+) => State;
+
+export interface SyncOptions<State> {
+  /** Name of the `BroadcastChannel` use for syncing. */
+  channel: string;
+  /**
+   * How to handle updates from other tabs. Defaults to
+   * `'last-writer-wins'` which ignores updates older than the
+   * local state.
+   */
+  conflict?: 'last-writer-wins' | SyncConflictResolver<State>;
+  /** Only sync these properties of the state. */
+  include?: (keyof State)[];
+  /** Sync every property of the state except for these. */
+  exclude?: (keyof State)[];
+}
+
+/** Message sent between tabs when the state updates. */
+export interface SyncMessage {
+  state: unknown;
+  timestamp: number;
+  /** Id of the tab that sent the message. */
+  sender: string;
+}
+
+/** A local update sent to the server. */
+export interface RemoteOperation {
+  /** Unique id of the operation, used for confirming it. */
+  id: string;
+  /** The changes made by the update. */
+  patches: Patch[];
+}
+
+/** Message sent from a store to the server. */
+export interface RemoteClientMessage {
+  type: 'push';
+  operations: RemoteOperation[];
+}
+
+/**
+ * Message sent from the server when its state changes, and when a
+ * store connects.
+ */
+export interface RemoteServerMessage<State = any> {
+  type: 'state';
+  /** Increases every time the state of the server changes. */
+  version: number;
+  /** The state confirmed by the server. */
+  state: State;
+  /** Ids of the operations included in the state. */
+  applied: string[];
+  /** Ids of the operations the server couldn't apply. */
+  rejected: string[];
+}
+
+/**
+ * Connection between a store and a server, e.g. using a WebSocket.
+ */
+export interface RemoteTransport<State = any> {
+  /** Send a message to the server, only called while connected. */
+  send: (message: RemoteClientMessage) => void;
+  /**
+   * Listen for messages from the server.
+   * @returns Function for removing the listener.
+   */
+  onMessage: (
+    listener: (message: RemoteServerMessage<State>) => void,
+  ) => () => void;
+  /**
+   * Listen for the connection opening and closing.
+   * @returns Function for removing the listener.
+   */
+  onConnectionChange: (listener: (connected: boolean) => void) => () => void;
+  isConnected: () => boolean;
+  /** Connect again after the connection was lost. */
+  reconnect: () => void;
+}
+
+export interface RemoteOptions<State> {
+  /** Connection to the server, see `RemoteTransport`. */
+  transport: RemoteTransport<State>;
+}
+
+export interface DevtoolsOptions {
+  /** Name of the instance in the extension, defaults to the store name. */
+  name?: string;
 }
 
 // Number of default params in each type of action.
@@ -78,16 +490,85 @@ export interface Actions<State = any> {
 export type SyncAction<State> = (state: State, ...payload: any[]) => State;
 
 export interface AsyncActions<State = any> {
-  [key: string]: AsyncAction<State>;
+  [key: string]: AsyncAction<State> | OptimisticAsyncAction<State>;
 }
 
 export type AsyncAction<State> = (
-  getState: () => State,
+  getState: GetState<State>,
   ...payload: any[]
 ) => Promise<State>;
 
+/**
+ * Async action that updates the state right away with an optimistic
+ * state. The optimistic update is rolled back if `run` throws or the
+ * call is cancelled, otherwise `commit` updates the state with the
+ * result of `run`.
+ */
+export interface OptimisticAsyncAction<State, Result = any> {
+  /** Returns the optimistic state, works the same as sync actions. */
+  optimistic: (state: State, ...payload: any[]) => State;
+  /** Does the async work e.g. sending a request. */
+  run: (getState: GetState<State>, ...payload: any[]) => Promise<Result>;
+  /** Returns the final state using the result of `run`. */
+  commit: (state: State, result: Result, ...payload: any[]) => State;
+}
+
+/** The function that's called with the payload of an async action. */
+export type AsyncActionFunction<Action> =
+  Action extends OptimisticAsyncAction<any> ? Action['run'] : Action;
+
+/**
+ * Returns the current state, `signal` is aborted when the
+ * call is cancelled or superseded by another call.
+ */
+export type GetState<State> = {
+  (): State;
+  signal: AbortSignal;
+};
+
+/**
+ * How an async action handles being called while a previous call
+ * is still running.
+ *
+ * - `'takeEvery'` runs every call.
+ * - `'takeLatest'` cancels the running calls.
+ * - `'takeFirst'` or `'exhaust'` ignores the call.
+ * - `'queue'` or `'serial'` runs the call after the previous calls.
+ * - `{ debounce: ms }` waits `ms` milliseconds before running the
+ *   call, calls made while waiting replace the waiting call.
+ * - `{ throttle: ms }` ignores calls made within `ms` milliseconds
+ *   of the last call that ran.
+ */
+export type ConcurrencyPolicy =
+  | 'takeEvery'
+  | 'takeLatest'
+  | 'takeFirst'
+  | 'exhaust'
+  | 'queue'
+  | 'serial'
+  | { debounce: number }
+  | { throttle: number };
+
 export type SetState<State> = (state: State) => void;
 
+/** Function for selecting a value from the state. */
+export type Selector<State = any, Result = any> = (state: State) => Result;
+
+/** The results of each selector in a list of selectors. */
+export type SelectorResults<Selectors extends Selector[]> = {
+  [key in keyof Selectors]: ReturnType<Selectors[key]>;
+};
+
+/** Selectors for values derived from the state. */
+export interface ComputedOptions<State = any> {
+  [key: string]: Selector<State>;
+}
+
+/** Values derived from the state using `options.computed`. */
+export type ComputedValues<Computed extends ComputedOptions> = {
+  readonly [key in keyof Computed]: ReturnType<Computed[key]>;
+};
+
 /** Remove the first item on an array.*/
 type RemoveFirstItem<T extends unknown[]> = T['length'] extends 0
   ? T
@@ -170,6 +651,29 @@ export type EqualityFn<State> = (newState: State, oldState: State) => boolean;
 
 export type StoreChangeListener<S extends Store> = (store: S) => void;
 
+/** A JSON Patch (RFC 6902) operation. */
+export type Patch =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+/**
+ * Called with the patches for each update of the state, along with
+ * the inverse patches that undo the update.
+ */
+export type PatchListener = (patches: Patch[], inversePatches: Patch[]) => void;
+
+/**
+ * A store that can be subscribed to, used for creating
+ * `useStore` hooks.
+ */
+export interface SnapshotStore<S extends Store = Store> {
+  store: S;
+  subscribe(listener: StoreChangeListener<S>): (() => void) | undefined;
+  getSnapshot(): S;
+  getServerSnapshot(): S;
+}
+
 /**
  * Type for the actions available from the store.
  *
@@ -180,12 +684,18 @@ export type StoreChangeListener<S extends Store> = (store: S) => void;
  * Async actions.
  */
 export type StoreActions<
-  ActionsCollection extends Actions,
+  ActionsCollection extends Actions | AsyncActions,
   ActionType extends ActionTypes,
 > = {
   [key in keyof ActionsCollection]: ActionType extends ActionTypes.sync
-    ? ProcessedAction<ActionsCollection[key], SyncDefaultPramCount>
-    : ProcessAsyncAction<ActionsCollection[key], AsyncDefaultParamCount>;
+    ? ProcessedAction<
+        Extract<ActionsCollection[key], SyncAction<any>>,
+        SyncDefaultPramCount
+      >
+    : ProcessAsyncAction<
+        AsyncActionFunction<ActionsCollection[key]>,
+        AsyncDefaultParamCount
+      >;
 };
 
 /** The state of the store */
@@ -206,24 +716,212 @@ export type CreateActionsResult<
    * Actions for performing asynchronous updates on the store.
    */
   asyncActions: StoreActions<ActionsAsync, ActionTypes.async>;
+  /**
+   * Cancels the running and waiting calls of an async action,
+   * their results aren't committed to the store.
+   */
+  abortAsyncAction: (name: keyof ActionsAsync & string) => void;
 };
 
-export type UseStoreHook<Store, SelectFn extends (state: Store) => any> = (
-  select: SelectFn,
-  equalFn?: EqualityFn<Store>,
-) => ReturnType<SelectFn>;
+/**
+ * Additional options for creating actions.
+ */
+export interface CreateActionsOptions<
+  ActionsSync extends Actions,
+  ActionsAsync extends AsyncActions,
+> {
+  /** Functions that each update goes through before it's committed. */
+  middleware?: Middleware<any, ActionsSync, ActionsAsync>[];
+  /**
+   * Called when an async action is called, returns a function that
+   * the updates of the action are made through.
+   */
+  bindAsyncUpdates?: () => (update: () => void) => void;
+  /** How each async action handles concurrent calls. */
+  concurrency?: { [key in keyof ActionsAsync]?: ConcurrencyPolicy };
+  /** Runs each async action, use for keeping track of its status. */
+  trackAsyncAction?: (
+    name: keyof ActionsAsync & string,
+    payload: unknown[],
+    action: () => Promise<void>,
+    signal: AbortSignal,
+  ) => Promise<void>;
+}
+
+export type UseStoreHook<
+  Store,
+  SelectFn extends (state: Store, computed: Computed) => any,
+  Computed = ComputedValues<ComputedOptions>,
+> = (select: SelectFn, equalFn?: EqualityFn<Store>) => ReturnType<SelectFn>;
+
+/**
+ * Options for subscribing to part of the store.
+ */
+export interface SubscribeOptions<T> {
+  /**
+   * Returns true when two selected values are equal, the listener
+   * is only called when the value isn't equal to the previous one.
+   * Defaults to `Object.is`.
+   */
+  equalityFn?: (value: T, previousValue: T) => boolean;
+  /** Call the listener with the current value straight away. */
+  fireImmediately?: boolean;
+}
+
+/**
+ * Subscribes to the value returned by `selector` and returns the
+ * unsubscribe function. The listener is called with the new value
+ * and the previous value every time the selected value changes.
+ */
+export type StoreSubscribe<S extends Store, Computed> = <T>(
+  selector: (store: S, computed: Computed) => T,
+  listener: (value: T, previousValue: T) => void,
+  options?: SubscribeOptions<T>,
+) => () => void;
+
+/**
+ * Options for watching part of the store.
+ */
+export interface WatchOptions<T> {
+  /**
+   * Returns true when two selected values are equal, the effect only
+   * runs when the value isn't equal to the previous one. Defaults
+   * to `Object.is`.
+   */
+  equalityFn?: (value: T, previousValue: T) => boolean;
+  /** Run the effect with the current value straight away. */
+  immediate?: boolean;
+  /** Name of the reaction, used in error messages. */
+  name?: string;
+}
+
+/**
+ * Side effect for when a watched value changes. The function it
+ * returns is called before the effect runs again and when it's
+ * no longer watched.
+ */
+export type ReactionEffect<T, Context> = (
+  value: T,
+  previousValue: T,
+  context: Context,
+) => void | (() => void) | Promise<void>;
+
+/** The actions of a store, passed to every effect. */
+export type ReactionContext<
+  ActionsSync extends Actions,
+  ActionsAsync extends AsyncActions,
+> = Pick<
+  CreateActionsResult<ActionsSync, ActionsAsync>,
+  'actions' | 'asyncActions'
+>;
+
+/** A reaction from `options.reactions`. */
+export interface Reaction<S extends Store, Computed, Context, T = any>
+  extends Omit<WatchOptions<T>, 'name'> {
+  /** Selects the value to watch. */
+  selector: (store: S, computed: Computed) => T;
+  effect: ReactionEffect<T, Context>;
+}
+
+/**
+ * Runs `effect` every time the value returned by `selector` changes
+ * and returns the function for stopping it.
+ */
+export type StoreWatch<S extends Store, Computed, Context> = <T>(
+  selector: (store: S, computed: Computed) => T,
+  effect: ReactionEffect<T, Context>,
+  options?: WatchOptions<T>,
+) => () => void;
+
+/**
+ * The store without the React hooks, returned by `createVanillaStore`.
+ */
+export type VanillaStoreResult<
+  State,
+  Name extends string,
+  ActionOption extends Actions<State>,
+  AsyncActionOption extends AsyncActions<State>,
+  Computed extends ComputedOptions<State> = ComputedOptions<State>,
+> = {
+  /** The store. Don't update the state here directly, use actions. */
+  store: Store<Name, State>;
+
+  /** Values from `options.computed` for the current state. */
+  computed: ComputedValues<Computed>;
+
+  /**
+   * The object keeping track of the state and listeners. Use for
+   * integrating with other stores e.g. `combineStores`.
+   */
+  stateStore: StateStore<Name, State>;
+
+  /**
+   * Remove the store from its registry, e.g. when hot reloading
+   * replaces the module that created it. Does nothing for stores
+   * that aren't in a registry.
+   */
+  unregister: () => void;
+
+  /**
+   * Subscribe to part of the store outside of React.
+   * @param selector Selects the value to watch, values from
+   * `options.computed` are available as the second param.
+   * @param listener Called with the new and the previous value.
+   * @param options.equalityFn Optional, compares the selected values.
+   * @param options.fireImmediately Optional, call the listener with
+   * the current value when subscribing.
+   * @returns Function for removing the listener.
+   */
+  subscribe: StoreSubscribe<Store<Name, State>, ComputedValues<Computed>>;
+
+  /**
+   * Run a side effect every time part of the store changes.
+   * @param selector Selects the value to watch.
+   * @param effect Called with the new value, the previous value and
+   * the actions of the store. Can return a cleanup function.
+   * @param options.equalityFn Optional, compares the selected values.
+   * @param options.immediate Optional, run the effect straight away.
+   * @returns Function for stopping the effect.
+   */
+  watch: StoreWatch<
+    Store<Name, State>,
+    ComputedValues<Computed>,
+    ReactionContext<ActionOption, AsyncActionOption>
+  >;
+
+  /**
+   * Listen for the JSON Patches of every update of the state.
+   * @returns Function for removing the listener.
+   */
+  onPatches: (listener: PatchListener) => () => void;
+
+  /**
+   * Apply JSON Patches to the state, listeners are notified the same
+   * way as for any other update. Throws if a patch can't be applied.
+   */
+  applyPatches: (patches: Patch[]) => void;
+} & CreateActionsResult<ActionOption, AsyncActionOption> &
+  Omit<StoreActionStatus<keyof AsyncActionOption & string>, 'useActionStatus'> &
+  Omit<StoreHistory, 'useHistory'> &
+  Omit<StorePersistence, 'useHydrated'> &
+  StoreRecorder<State>;
 
 export type CreateStoreResult<
   State,
   Name extends string,
-  SelectFn extends (state: Store<Name, State>) => any,
+  SelectFn extends (
+    state: Store<Name, State>,
+    computed: ComputedValues<Computed>,
+  ) => any,
   ActionOption extends Actions<State>,
   AsyncActionOption extends AsyncActions<State>,
+  Computed extends ComputedOptions<State> = ComputedOptions<State>,
 > = {
   /**
    * Hook use for accessing the store.
    * @param select Function that accepts the store state as argument
    * and can be use to narrow down what is returned from the store.
+   * Values from `options.computed` are available as the second param.
    * @param equalFn Optional function to determine if the local state
    * should be updated when the store updates.
    * @returns The property selected in the select function.
@@ -233,6 +931,190 @@ export type CreateStoreResult<
     equalFn?: EqualityFn<Store<Name, State>>,
   ) => ReturnType<StoreSelect>;
 
-  /** The store. Don't update the state here directly, use actions. */
-  store: Store<Name, State>;
-} & CreateActionsResult<ActionOption, AsyncActionOption>;
+  /**
+   * Hook that returns the store wrapped in a proxy. The component
+   * only rerenders when a property it read while rendering changes,
+   * so a select function or `equalFn` isn't needed.
+   */
+  useTrackedStore: () => Store<Name, State>;
+} & VanillaStoreResult<State, Name, ActionOption, AsyncActionOption, Computed> &
+  StoreActionStatus<keyof AsyncActionOption & string> &
+  StoreHistory &
+  StorePersistence;
+
+/**
+ * Functions for moving through the history of the store. These
+ * do nothing unless `options.history` is set.
+ */
+export type StoreHistory = {
+  /** Go back to the state before the last recorded update. */
+  undo: () => void;
+  /** Reapply the last update that was undone. */
+  redo: () => void;
+  /** Remove all past and future states. */
+  clearHistory: () => void;
+  /**
+   * Record the updates made by the actions called inside `fn` as a
+   * single step. Updates made by async actions called inside `fn` are
+   * part of the step, updates made after `fn` awaits aren't.
+   */
+  groupHistory: <T>(fn: () => T) => T;
+  /** Hook for checking if there are states to undo or redo. */
+  useHistory: () => HistoryStatus;
+};
+
+/**
+ * Functions for checking the persisted state of the store.
+ */
+export type StorePersistence = {
+  /** Whether the state has been restored from the storage. */
+  hasHydrated: () => boolean;
+  /** Hook version of `hasHydrated`. */
+  useHydrated: () => boolean;
+  /** Remove the saved state from the storage. */
+  clearPersistedState: () => Promise<void>;
+};
+
+/** The status of an async action. */
+export type ActionStatus = {
+  /**
+   * `pending` while any call to the action is in progress, otherwise
+   * the result of the last call to finish.
+   */
+  status: 'idle' | 'pending' | 'success' | 'error';
+  /** The error from the last call, if it failed. */
+  error?: unknown;
+  /** Number of calls to the action that are in progress. */
+  pendingCount: number;
+};
+
+/**
+ * Functions for checking the status of async actions.
+ */
+export type StoreActionStatus<ActionName extends string> = {
+  /** Returns the current status of an async action. */
+  getActionStatus: (name: ActionName) => ActionStatus;
+  /** Hook version of `getActionStatus`. */
+  useActionStatus: (name: ActionName) => ActionStatus;
+};
+
+export type HistoryStatus = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+/** An action recorded when `options.record` is set. */
+export interface RecordedAction {
+  /** Name of the action. */
+  key: string;
+  type: 'sync' | 'async';
+  /** The params the action was called with, serialized as JSON. */
+  payload: unknown[];
+  /** When the update was committed, in milliseconds since the epoch. */
+  timestamp: number;
+  /** Hash of the state after the update. */
+  stateHash: string;
+  /**
+   * The state committed by an async action. It's committed again
+   * during a replay instead of running the action.
+   */
+  result?: unknown;
+}
+
+/** The actions recorded by a store, can be serialized as JSON. */
+export interface ActionLog<State = any> {
+  version: 1;
+  /** Name of the store the actions were recorded from. */
+  name: string;
+  /** The state when recording started. */
+  initialState: State;
+  actions: RecordedAction[];
+}
+
+/**
+ * Functions for reading the actions recorded by the store. The log
+ * is always empty unless `options.record` is set.
+ */
+export type StoreRecorder<State> = {
+  /** Returns the actions recorded so far. */
+  getActionLog: () => ActionLog<State>;
+  /** Returns the log as a JSON string. */
+  exportActionLog: () => string;
+  /** Removes the recorded actions and starts from the current state. */
+  clearActionLog: () => void;
+};
+
+export interface ReplayOptions {
+  /**
+   * How much faster than recorded to replay, e.g. `2` for twice as
+   * fast. Defaults to `Infinity`, replaying every action straight away.
+   */
+  speed?: number;
+  /** Stop after replaying the action at this index. */
+  stopAt?: number;
+}
+
+export interface ReplayResult {
+  /** Number of actions replayed. */
+  replayed: number;
+  /** The first action whose resulting state doesn't match the log. */
+  mismatch?: {
+    index: number;
+    action: RecordedAction;
+    /** Hash of the state after the action was replayed. */
+    stateHash: string;
+  };
+}
+
+/**
+ * Information about an action for each of the actions in a
+ * collection.
+ */
+type ActionContextOf<
+  State,
+  ActionsCollection,
+  ActionType extends ActionTypes,
+> = {
+  [key in keyof ActionsCollection & string]: {
+    /** Whether the action is sync or async. */
+    type: ActionType;
+    /** The key of the action in `options.actions` or `options.asyncActions`. */
+    name: key;
+    /** The params passed to the action when it was called. */
+    payload: AsyncActionFunction<ActionsCollection[key]> extends (
+      ...args: any
+    ) => any
+      ? RemoveFirstItem<Parameters<AsyncActionFunction<ActionsCollection[key]>>>
+      : never;
+    /** The state before the update. */
+    prevState: State;
+    /** The state returned by the action. */
+    nextState: State;
+    /** Result of `performance.now()` when the action was called. */
+    startedAt: number;
+  };
+}[keyof ActionsCollection & string];
+
+/**
+ * Information about the action that is updating the state.
+ */
+export type ActionContext<
+  State = any,
+  ActionsSync extends Actions<State> = Actions<State>,
+  ActionsAsync extends AsyncActions<State> = AsyncActions<State>,
+> =
+  | ActionContextOf<State, ActionsSync, ActionTypes.sync>
+  | ActionContextOf<State, ActionsAsync, ActionTypes.async>;
+
+/**
+ * Function that is called with every action before the state
+ * is committed to the store. Call `next` to continue the update.
+ */
+export type Middleware<
+  State = any,
+  ActionsSync extends Actions<State> = Actions<State>,
+  ActionsAsync extends AsyncActions<State> = AsyncActions<State>,
+> = (
+  context: ActionContext<State, ActionsSync, ActionsAsync>,
+  next: (nextState: State) => void,
+) => void;
@@ -0,0 +1,208 @@
+import { useCallback, useContext, useRef, useSyncExternalStore } from 'react';
+import type {
+  ComputedOptions,
+  ComputedValues,
+  EqualityFn,
+  SnapshotStore,
+  UseStoreHook,
+} from './types';
+import { StoreCollectorContext } from './ssr';
+import { createTracker } from './tracked';
+
+/**
+ * Creates a custom hook that can be used inside react components to
+ * retrieve the store state.
+ *
+ * @param stateStore The store the hooks is accessing.
+ * @param getComputed Returns the computed values for a store snapshot.
+ */
+export const createUseStoreHook = <
+  StoreInstance extends SnapshotStore,
+  SelectFn extends (
+    state: StoreInstance['store'],
+    computed: Computed,
+  ) => ReturnType<SelectFn>,
+  Computed = ComputedValues<ComputedOptions>,
+>(
+  stateStore: StoreInstance,
+  getComputed: (store: StoreInstance['store']) => Computed = () =>
+    ({}) as Computed,
+): UseStoreHook<StoreInstance['store'], SelectFn, Computed> => {
+  /**
+   * A Hook use for accessing the state of the store.
+   *
+   * @param select Function that takes the store state as the argument
+   * and can be use to narrow down the value returned. The computed
+   * values for the store are available as the second argument.
+   *
+   * @param equalFn Function that is called when the store updates. Use
+   * to decide if the local state should be updated as well. The new state
+   * and the old state are available as the first and second param.
+   */
+  const useStoreSelect = <
+    T extends (
+      state: StoreInstance['store'],
+      computed: Computed,
+    ) => ReturnType<T>,
+  >(
+    select: T,
+    equalFn?: EqualityFn<StoreInstance['store']>,
+  ): ReturnType<T> => {
+    // Keep track of the stores used while rendering on the server.
+    useContext(StoreCollectorContext)?.collect(stateStore);
+
+    // The store snapshot seen by this hook. `local` is the snapshot the
+    // component renders with, it only moves forward when the update
+    // check passes. `latest` is the last snapshot the check ran against.
+    const snapshotRef = useRef<{
+      latest: StoreInstance['store'];
+      local: StoreInstance['store'];
+    }>();
+
+    const subscribe = useCallback((onStoreChange: () => void) => {
+      const unsubscribe = stateStore.subscribe(onStoreChange);
+      // Remove the listener from the store when component unmounts.
+      return () => {
+        unsubscribe && unsubscribe();
+      };
+    }, []);
+
+    const getSnapshot = (): StoreInstance['store'] => {
+      const storeSnapshot = stateStore.getSnapshot();
+      if (!snapshotRef.current) {
+        snapshotRef.current = { latest: storeSnapshot, local: storeSnapshot };
+      }
+      const current = snapshotRef.current;
+
+      if (storeSnapshot !== current.latest) {
+        const oldStore = current.latest;
+        current.latest = storeSnapshot;
+        const shouldUpdate = equalFn
+          ? equalFn(storeSnapshot, oldStore)
+          : defaultStoreUpdateCheck(
+              select(oldStore, getComputed(oldStore)),
+              select(storeSnapshot, getComputed(storeSnapshot)),
+            );
+        if (shouldUpdate) {
+          current.local = storeSnapshot;
+        }
+      }
+      return current.local;
+    };
+
+    const storeState = useSyncExternalStore(
+      subscribe,
+      getSnapshot,
+      stateStore.getServerSnapshot.bind(stateStore),
+    );
+    return select(storeState, getComputed(storeState));
+  };
+
+  return useStoreSelect;
+};
+
+/**
+ * Creates a hook that returns the store wrapped in a proxy, the
+ * component only rerenders when a property it read during its last
+ * render changes.
+ *
+ * @param stateStore The store the hook is accessing.
+ */
+export const createUseTrackedStoreHook = <StoreInstance extends SnapshotStore>(
+  stateStore: StoreInstance,
+) => {
+  /**
+   * A hook use for accessing the state of the store without a select
+   * function. Reading `store.name.value` while rendering makes the
+   * component rerender when `value` changes, updates to other
+   * properties are ignored.
+   */
+  const useTrackedStore = (): StoreInstance['store'] => {
+    useContext(StoreCollectorContext)?.collect(stateStore);
+
+    const trackingRef = useRef<{
+      tracker: ReturnType<typeof createTracker>;
+      rendered?: StoreInstance['store'];
+    }>();
+    if (!trackingRef.current) {
+      trackingRef.current = { tracker: createTracker() };
+    }
+    const tracking = trackingRef.current;
+
+    // Only notify React when a property read during the last render
+    // changed, other updates don't cause a render.
+    const subscribe = useCallback((onStoreChange: () => void) => {
+      const unsubscribe = stateStore.subscribe((store) => {
+        const current = trackingRef.current;
+        if (current && current.tracker.isChanged(current.rendered, store)) {
+          onStoreChange();
+        }
+      });
+      return () => {
+        unsubscribe && unsubscribe();
+      };
+    }, []);
+
+    const storeState = useSyncExternalStore(
+      subscribe,
+      stateStore.getSnapshot.bind(stateStore),
+      stateStore.getServerSnapshot.bind(stateStore),
+    );
+    tracking.rendered = storeState;
+    tracking.tracker.reset();
+    return tracking.tracker.track(storeState);
+  };
+
+  return useTrackedStore;
+};
+
+/**
+ * Creates a hook that returns the result of `getStatus` and rerenders
+ * the component when `statusStore` updates.
+ *
+ * @param statusStore The store the status is kept in.
+ * @param getStatus Returns the status, it must return the same value
+ * until the status store updates.
+ */
+export const createStatusHook = <Params extends unknown[], Status>(
+  statusStore: SnapshotStore,
+  getStatus: (...params: Params) => Status,
+) => {
+  const subscribe = (onStatusChange: () => void) => {
+    const unsubscribe = statusStore.subscribe(onStatusChange);
+    return () => {
+      unsubscribe && unsubscribe();
+    };
+  };
+
+  const useStatus = (...params: Params): Status => {
+    const getSnapshot = () => getStatus(...params);
+    return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  };
+
+  return useStatus;
+};
+
+/**
+ * Default logic for checking if local state should be updated
+ * when the store updates.
+ */
+const defaultStoreUpdateCheck = <SelectFnResult>(
+  oldStoreResult: SelectFnResult,
+  newStoreResult: SelectFnResult,
+): boolean => {
+  // When the hook select function returns an array, only one
+  // element needs to be different.
+  if (Array.isArray(oldStoreResult) && Array.isArray(newStoreResult)) {
+    let shouldUpdate = false;
+    for (let i = 0; i < oldStoreResult.length; i++) {
+      if (oldStoreResult[i] !== newStoreResult[i]) {
+        shouldUpdate = true;
+        break;
+      }
+    }
+    return shouldUpdate;
+  } else {
+    return oldStoreResult !== newStoreResult;
+  }
+};
@@ -0,0 +1,76 @@
+import { isPlainObject } from './structural-sharing';
+
+/**
+ * Calls `callback` with the value, waiting for it first if it's
+ * a promise.
+ */
+export const whenResolved = <T, R>(
+  value: T | Promise<T>,
+  callback: (value: T) => R | Promise<R>,
+): R | Promise<R> => {
+  if (value instanceof Promise) {
+    return value.then(callback);
+  }
+  return callback(value);
+};
+
+/**
+ * Creates a function that selects part of a state, keeping only the
+ * properties in `include` and removing the ones in `exclude`.
+ *
+ * States that aren't plain objects are returned as they are.
+ */
+export const createPartialize = <State>(
+  include?: (keyof State)[],
+  exclude?: (keyof State)[],
+) => {
+  const includedKeys = include && new Set<PropertyKey>(include);
+  const excludedKeys = exclude && new Set<PropertyKey>(exclude);
+
+  return (state: State): Partial<State> | State => {
+    if (!isPlainObject(state) || (!includedKeys && !excludedKeys)) {
+      return state;
+    }
+    const partialState: Record<PropertyKey, unknown> = { ...state };
+    for (const property in partialState) {
+      const isIncluded = !includedKeys || includedKeys.has(property);
+      if (!isIncluded || excludedKeys?.has(property)) {
+        delete partialState[property];
+      }
+    }
+    return partialState as Partial<State>;
+  };
+};
+
+/**
+ * Combines a partial state created with `createPartialize` with
+ * a full state.
+ */
+export const mergePartialState = <State>(
+  state: State,
+  partialState: Partial<State> | State,
+): State => {
+  if (isPlainObject(state) && isPlainObject(partialState)) {
+    return { ...state, ...partialState };
+  }
+  return partialState as State;
+};
+
+/** Whether the code is running in a development build. */
+export const isDevelopment = () =>
+  typeof process === 'undefined' || process.env.NODE_ENV !== 'production';
+
+/**
+ * Freezes every plain object and array in a value. Values that are
+ * already frozen are skipped along with everything inside of them.
+ */
+export const deepFreeze = <T>(value: T): T => {
+  if (
+    (isPlainObject(value) || Array.isArray(value)) &&
+    !Object.isFrozen(value)
+  ) {
+    Object.freeze(value);
+    Object.values(value).forEach(deepFreeze);
+  }
+  return value;
+};
@@ -0,0 +1,109 @@
+import type {
+  Actions,
+  AsyncActions,
+  InvalidStateHandler,
+  Middleware,
+  StateValidator,
+} from './types';
+import { isSchema } from './schema';
+
+/**
+ * Thrown or passed to `options.onInvalidState` when an action
+ * returns a state that doesn't pass `options.validate`.
+ */
+export class StateValidationError extends Error {
+  /** Name of the action that returned the state. */
+  actionName: string;
+  /** The params the action was called with. */
+  payload: unknown[];
+  /** The state that was rejected. */
+  state: unknown;
+  /** Description of each problem found. */
+  problems: string[];
+
+  constructor(
+    actionName: string,
+    payload: unknown[],
+    state: unknown,
+    problems: string[],
+  ) {
+    super(
+      `Invalid state from action "${actionName}" with payload ` +
+        `${formatPayload(payload)}: ${problems.join('; ')}`,
+    );
+    this.name = 'StateValidationError';
+    this.actionName = actionName;
+    this.payload = payload;
+    this.state = state;
+    this.problems = problems;
+  }
+}
+
+const formatPayload = (payload: unknown[]) => {
+  try {
+    return JSON.stringify(payload) ?? String(payload);
+  } catch {
+    return `[${payload.map((value) => String(value)).join(', ')}]`;
+  }
+};
+
+/**
+ * Checks a state using a validator.
+ * @returns A description of each problem found, empty when valid.
+ */
+const findProblems = <State>(
+  validator: StateValidator<State>,
+  state: State,
+): string[] => {
+  if (isSchema(validator)) {
+    return validator.check(state);
+  }
+  try {
+    const result = validator(state);
+    if (result === false) {
+      return ['state failed validation'];
+    }
+    return typeof result === 'string' ? [result] : [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+};
+
+/**
+ * Creates a middleware that stops updates with states that don't
+ * pass `validator`.
+ *
+ * @param validator Function or schema the states are checked with.
+ * @param onInvalid What to do with invalid updates, defaults to
+ * `'throw'`. The update is never committed.
+ */
+export const createValidationMiddleware =
+  <
+    State,
+    ActionsSync extends Actions<State>,
+    ActionsAsync extends AsyncActions<State>,
+  >(
+    validator: StateValidator<State>,
+    onInvalid: InvalidStateHandler = 'throw',
+  ): Middleware<State, ActionsSync, ActionsAsync> =>
+  (context, next) => {
+    const problems = findProblems(validator, context.nextState);
+    if (!problems.length) {
+      next(context.nextState);
+      return;
+    }
+
+    const error = new StateValidationError(
+      context.name,
+      context.payload,
+      context.nextState,
+      problems,
+    );
+    if (onInvalid === 'throw') {
+      throw error;
+    } else if (onInvalid === 'warn') {
+      console.warn(error.message);
+    } else if (typeof onInvalid === 'function') {
+      onInvalid(error);
+    }
+  };
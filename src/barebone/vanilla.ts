@@ -0,0 +1,380 @@
+import type {
+  Actions,
+  StoreOptions,
+  StoreActions,
+  AsyncActions,
+  VanillaStoreResult,
+  CreateActionsResult,
+  ActionContext,
+  CreateActionsOptions,
+  ComputedOptions,
+  ComputedValues,
+  Store,
+} from './types';
+import { ActionTypes } from './types';
+import { StateStore } from './state-store';
+import { applyMiddleware } from './middleware';
+import { connectDevtools } from './devtools';
+import { createHistory } from './history';
+import { createActionRecorder } from './recorder';
+import { persistStore } from './persist';
+import { syncStore } from './sync';
+import { remoteStore } from './remote';
+import { createComputed } from './selectors';
+import { storeRegistry } from './registry';
+import { createActionStatus } from './action-status';
+import { createSubscribe } from './subscribe';
+import { createWatch } from './reactions';
+import { applyPatches } from './patches';
+import { createAsyncActionRunner, whenAborted } from './concurrency';
+import { createOptimisticUpdates } from './optimistic';
+import { createValidationMiddleware } from './validate';
+import { isDevelopment } from './utils';
+
+/**
+ * Creates a store without any of the React hooks, use for workers,
+ * scripts and other UI libraries. Accepts the same options as
+ * `createStore`, use `subscribe` to listen for changes.
+ *
+ * @returns { subscribe, actions, asyncActions, abortAsyncAction, store,
+ * computed, stateStore, getActionStatus, undo, redo, clearHistory,
+ * groupHistory, hasHydrated, clearPersistedState, getActionLog,
+ * exportActionLog, clearActionLog, watch, onPatches, applyPatches }
+ *
+ * @example
+ * const { subscribe, actions } = createVanillaStore({
+ *   name: 'counter',
+ *   initialState: { count: 0 },
+ *   actions: { increment: (state) => ({ count: state.count + 1 }) },
+ * });
+ *
+ * subscribe(
+ *   (store) => store.counter.count,
+ *   (count, previousCount) => console.log(previousCount, '->', count),
+ * );
+ */
+export const createVanillaStore = <
+  Name extends string,
+  State,
+  ActionOption extends Actions<State>,
+  AsyncActionOptions extends AsyncActions<State>,
+  Computed extends ComputedOptions<State>,
+>(
+  options: StoreOptions<
+    State,
+    Name,
+    ActionOption,
+    AsyncActionOptions,
+    Computed
+  >,
+): VanillaStoreResult<
+  State,
+  Name,
+  ActionOption,
+  AsyncActionOptions,
+  Computed
+> => createStoreCore(options).vanillaStore;
+
+/**
+ * Sets up everything a store needs apart from the React hooks.
+ * @returns The vanilla store, along with `getComputed` and the
+ * status stores the hooks of `createStore` read from.
+ */
+export const createStoreCore = <
+  Name extends string,
+  State,
+  ActionOption extends Actions<State>,
+  AsyncActionOptions extends AsyncActions<State>,
+  Computed extends ComputedOptions<State>,
+>(
+  options: StoreOptions<
+    State,
+    Name,
+    ActionOption,
+    AsyncActionOptions,
+    Computed
+  >,
+) => {
+  //
+  const stateStore = new StateStore(options.name, options.initialState, {
+    freeze: options.freeze ?? isDevelopment(),
+  });
+  const registry = options.registry === true ? storeRegistry : options.registry;
+  const unregister = registry ? registry.register(stateStore) : () => {};
+
+  const {
+    middleware: historyMiddleware,
+    statusStore: historyStatusStore,
+    bindGroup,
+    ...storeHistory
+  } = createHistory<State, ActionOption, AsyncActionOptions>(
+    stateStore,
+    options.history,
+  );
+
+  const { statusStore: persistStatusStore, ...storePersistence } = persistStore(
+    stateStore,
+    options.persist,
+  );
+  if (options.sync) {
+    syncStore(stateStore, options.sync);
+  }
+  if (options.remote) {
+    remoteStore(stateStore, options.remote);
+  }
+
+  const middleware = [...(options.middleware ?? [])];
+  const { middleware: recorderMiddleware, ...storeRecorder } =
+    createActionRecorder<State, ActionOption, AsyncActionOptions>(
+      stateStore,
+      options.record,
+    );
+  // Recorded first so actions stopped by any middleware are logged too.
+  recorderMiddleware && middleware.unshift(recorderMiddleware);
+  historyMiddleware && middleware.push(historyMiddleware);
+  if (options.devtools) {
+    const devtoolsMiddleware = connectDevtools<
+      State,
+      ActionOption,
+      AsyncActionOptions
+    >(stateStore, options.devtools === true ? {} : options.devtools);
+    devtoolsMiddleware && middleware.push(devtoolsMiddleware);
+  }
+  // Validated last so the state changed by any middleware is checked.
+  if (options.validate) {
+    middleware.push(
+      createValidationMiddleware<State, ActionOption, AsyncActionOptions>(
+        options.validate,
+        options.onInvalidState,
+      ),
+    );
+  }
+
+  const {
+    track,
+    statusStore: actionStatusStore,
+    ...storeActionStatus
+  } = createActionStatus<keyof AsyncActionOptions & string>(options.onError);
+
+  const storeActions = createActions(
+    stateStore,
+    options.actions,
+    options.asyncActions,
+    {
+      middleware,
+      bindAsyncUpdates: bindGroup,
+      concurrency: options.concurrency,
+      trackAsyncAction: track,
+    },
+  );
+
+  const { computed, getComputed } = createComputed(
+    stateStore,
+    options.computed,
+  );
+
+  const subscribe = createSubscribe<
+    Store<Name, State>,
+    ComputedValues<Computed>
+  >(stateStore, getComputed);
+  const watch = createWatch(subscribe, {
+    actions: storeActions.actions,
+    asyncActions: storeActions.asyncActions,
+  });
+  for (const name in options.reactions) {
+    const { selector, effect, ...watchOptions } = options.reactions[name];
+    watch(selector, effect, { ...watchOptions, name });
+  }
+
+  if (options.onPatches) {
+    stateStore.onPatches(options.onPatches);
+  }
+
+  const vanillaStore: VanillaStoreResult<
+    State,
+    Name,
+    ActionOption,
+    AsyncActionOptions,
+    Computed
+  > = {
+    store: stateStore.store,
+    computed,
+    stateStore,
+    unregister,
+    subscribe,
+    watch,
+    onPatches: (listener) => stateStore.onPatches(listener),
+    applyPatches: (patches) => {
+      stateStore.updateState(applyPatches(stateStore.getState(), patches));
+    },
+    ...storeActions,
+    ...storeActionStatus,
+    ...storeHistory,
+    ...storePersistence,
+    ...storeRecorder,
+  };
+
+  return {
+    vanillaStore,
+    getComputed,
+    actionStatusStore,
+    historyStatusStore,
+    persistStatusStore,
+  };
+};
+
+/**
+ * @param stateStore Object keeping track of state and listeners.
+ * @param actions Synchronous actions.
+ * @param asyncActions Async actions.
+ * @param options.middleware Functions that each update goes through
+ * before it's committed to the store.
+ * @param options.bindAsyncUpdates Called when an async action is
+ * called, returns a function that the updates of the action are made
+ * through.
+ * @param options.concurrency How each async action handles concurrent
+ * calls.
+ * @param options.trackAsyncAction Function that each async action is
+ * run through, use for keeping track of its status.
+ * @returns Object containing the sync and async actions for the store,
+ * and `abortAsyncAction` for cancelling async actions.
+ */
+export const createActions = <
+  UserDefinedActions extends Actions,
+  UserDefinedAsyncActions extends AsyncActions,
+  StoreInstance extends StateStore,
+>(
+  stateStore: StoreInstance,
+  actionsOption?: UserDefinedActions,
+  asyncActionsOption?: UserDefinedAsyncActions,
+  {
+    middleware,
+    bindAsyncUpdates,
+    concurrency,
+    trackAsyncAction,
+  }: CreateActionsOptions<UserDefinedActions, UserDefinedAsyncActions> = {},
+): CreateActionsResult<UserDefinedActions, UserDefinedAsyncActions> => {
+  //
+  const actions = {} as StoreActions<UserDefinedActions, ActionTypes.sync>;
+  const asyncActions = {} as StoreActions<
+    UserDefinedAsyncActions,
+    ActionTypes.async
+  >;
+  type Context = ActionContext<
+    unknown,
+    UserDefinedActions,
+    UserDefinedAsyncActions
+  >;
+  // Optimistic updates are only tracked when they're used.
+  const hasOptimisticActions = Object.values(asyncActionsOption ?? {}).some(
+    (action) => typeof action !== 'function',
+  );
+  const optimisticUpdates = hasOptimisticActions
+    ? createOptimisticUpdates(stateStore, actionsOption)
+    : undefined;
+  const dispatch = applyMiddleware(
+    stateStore,
+    optimisticUpdates
+      ? [...(middleware ?? []), optimisticUpdates.middleware]
+      : middleware,
+  );
+
+  // Create the sync actions.
+  for (const key in actionsOption) {
+    actions[key] = (...payload: unknown[]) => {
+      const startedAt = performance.now();
+      const prevState = stateStore.getState();
+      dispatch({
+        type: ActionTypes.sync,
+        name: key,
+        payload: payload as Context['payload'],
+        prevState,
+        nextState: actionsOption[key](prevState, ...payload),
+        startedAt,
+      } as Context);
+    };
+  }
+  // Create the async actions.
+  const runners = {} as Record<
+    keyof UserDefinedAsyncActions,
+    ReturnType<typeof createAsyncActionRunner>
+  >;
+  for (const key in asyncActionsOption) {
+    const action: AsyncActions[string] = asyncActionsOption[key];
+    const runner = createAsyncActionRunner(concurrency?.[key]);
+    runners[key] = runner;
+    asyncActions[key] = (...payload: unknown[]) => {
+      const runUpdate =
+        bindAsyncUpdates?.() ?? ((update: () => void) => update());
+      return runner.run((signal) => {
+        const runAction = async () => {
+          const startedAt = performance.now();
+          const getState = Object.assign(stateStore.getState.bind(stateStore), {
+            signal,
+          });
+          const dispatchAsync = (nextState: unknown) => {
+            runUpdate(() =>
+              dispatch({
+                type: ActionTypes.async,
+                name: key,
+                payload: payload as Context['payload'],
+                prevState: stateStore.getState(),
+                nextState,
+                startedAt,
+              } as Context),
+            );
+          };
+          const optimisticUpdate =
+            typeof action !== 'function'
+              ? optimisticUpdates?.apply(
+                  (state) => action.optimistic(state, ...payload),
+                  dispatchAsync,
+                )
+              : undefined;
+          const rollback = () => {
+            optimisticUpdate &&
+              optimisticUpdates?.rollback(optimisticUpdate, dispatchAsync);
+          };
+
+          let result: unknown;
+          try {
+            result = await Promise.race([
+              (typeof action === 'function' ? action : action.run)(
+                getState,
+                ...payload,
+              ),
+              whenAborted(signal),
+            ]);
+          } catch (error) {
+            rollback();
+            if (signal.aborted) return;
+            throw error;
+          }
+          // Results of cancelled calls are never committed.
+          if (signal.aborted) {
+            rollback();
+            return;
+          }
+          if (typeof action === 'function') {
+            dispatchAsync(result);
+          } else if (optimisticUpdate) {
+            optimisticUpdates?.commit(
+              optimisticUpdate,
+              (state) => action.commit(state, result, ...payload),
+              dispatchAsync,
+            );
+          }
+        };
+        return trackAsyncAction
+          ? trackAsyncAction(key, payload, runAction, signal)
+          : runAction();
+      });
+    };
+  }
+
+  const abortAsyncAction = (name: keyof UserDefinedAsyncActions & string) => {
+    runners[name]?.abort();
+  };
+
+  return { actions, asyncActions, abortAsyncAction };
+};
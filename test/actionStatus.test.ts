@@ -0,0 +1,115 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { createStore } from '../src/barebone';
+import { createDeferred, initialState, name } from './helpers';
+
+describe('async action status', () => {
+  const createTestStore = (onError?: (error: unknown) => void) =>
+    createStore({
+      name,
+      initialState,
+      asyncActions: {
+        setValueAsync: async (getState, value: Promise<number>) => ({
+          ...getState(),
+          value: await value,
+        }),
+        other: async (getState) => getState(),
+      },
+      onError,
+    });
+
+  it('Is idle before the action is called', () => {
+    const { getActionStatus } = createTestStore();
+    expect(getActionStatus('setValueAsync')).toEqual({
+      status: 'idle',
+      pendingCount: 0,
+    });
+  });
+
+  it('Keeps track of pending and successful calls', async () => {
+    const { asyncActions, getActionStatus, store } = createTestStore();
+    const first = createDeferred<number>();
+    const second = createDeferred<number>();
+
+    const firstCall = asyncActions.setValueAsync(first.promise);
+    const secondCall = asyncActions.setValueAsync(second.promise);
+    expect(getActionStatus('setValueAsync')).toEqual({
+      status: 'pending',
+      pendingCount: 2,
+    });
+
+    first.resolve(1);
+    await firstCall;
+    expect(getActionStatus('setValueAsync')).toEqual({
+      status: 'pending',
+      pendingCount: 1,
+    });
+
+    second.resolve(2);
+    await secondCall;
+    expect(getActionStatus('setValueAsync')).toEqual({
+      status: 'success',
+      pendingCount: 0,
+    });
+    expect(store.test.value).toBe(2);
+    // Other actions are not affected.
+    expect(getActionStatus('other').status).toBe('idle');
+  });
+
+  it('Records the error and rejects without onError', async () => {
+    const { asyncActions, getActionStatus } = createTestStore();
+    const error = new Error('failed');
+
+    await expect(
+      asyncActions.setValueAsync(Promise.reject(error)),
+    ).rejects.toBe(error);
+    expect(getActionStatus('setValueAsync')).toEqual({
+      status: 'error',
+      error,
+      pendingCount: 0,
+    });
+
+    // The error is cleared by the next successful call.
+    await asyncActions.setValueAsync(Promise.resolve(1));
+    expect(getActionStatus('setValueAsync')).toEqual({
+      status: 'success',
+      pendingCount: 0,
+    });
+  });
+
+  it('Passes errors to onError instead of rejecting', async () => {
+    const onError = jest.fn();
+    const { asyncActions, getActionStatus } = createTestStore(onError);
+    const error = new Error('failed');
+    const value = Promise.reject(error);
+
+    await expect(asyncActions.setValueAsync(value)).resolves.toBeUndefined();
+    expect(onError).toBeCalledWith(error, {
+      name: 'setValueAsync',
+      payload: [value],
+    });
+    expect(getActionStatus('setValueAsync').status).toBe('error');
+  });
+
+  it('Updates components using useActionStatus', async () => {
+    const { asyncActions, useActionStatus } = createTestStore();
+    const deferred = createDeferred<number>();
+
+    const { result } = renderHook(() => useActionStatus('setValueAsync'));
+    expect(result.current.status).toBe('idle');
+
+    let call: Promise<void> = Promise.resolve();
+    act(() => {
+      call = asyncActions.setValueAsync(deferred.promise);
+    });
+    expect(result.current).toEqual({ status: 'pending', pendingCount: 1 });
+
+    await act(async () => {
+      deferred.resolve(5);
+      await call;
+    });
+    expect(result.current).toEqual({ status: 'success', pendingCount: 0 });
+  });
+});
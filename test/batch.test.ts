@@ -0,0 +1,181 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { batch, createStore, transaction } from '../src/barebone';
+
+describe('batch and transaction', () => {
+  interface TestCounter {
+    value: number;
+  }
+
+  const initialState: TestCounter = { value: 0 };
+
+  const createTestStore = <Name extends string>(name: Name) =>
+    createStore({
+      name,
+      initialState,
+      actions: {
+        increment: (state) => ({ value: state.value + 1 }),
+        fail: (): TestCounter => {
+          throw new Error('failed');
+        },
+      },
+    });
+
+  it('Notifies listeners once after the batch finishes', () => {
+    const { actions, stateStore, store } = createTestStore('test');
+    const listener = jest.fn();
+    const equalFn = jest.fn(() => true);
+    stateStore.subscribe(listener, equalFn);
+
+    const result = batch(() => {
+      actions.increment();
+      actions.increment();
+      actions.increment();
+      expect(listener).not.toHaveBeenCalled();
+      // The latest state is available inside the batch.
+      return store.test.value;
+    });
+
+    expect(result).toBe(3);
+    expect(equalFn).toHaveBeenCalledTimes(1);
+    expect(equalFn).toHaveBeenCalledWith(
+      { test: { value: 3 } },
+      { test: initialState },
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('Renders once for updates to several stores', () => {
+    const counter = createTestStore('counter');
+    const other = createTestStore('other');
+    let renderCount = 0;
+    const { result } = renderHook(() => {
+      renderCount++;
+      return [
+        counter.useStore((store) => store.counter.value),
+        other.useStore((store) => store.other.value),
+      ];
+    });
+    expect(renderCount).toBe(1);
+
+    act(() => {
+      batch(() => {
+        counter.actions.increment();
+        other.actions.increment();
+        counter.actions.increment();
+      });
+    });
+    expect(result.current).toEqual([2, 1]);
+    expect(renderCount).toBe(2);
+  });
+
+  it('Waits for the outermost batch', () => {
+    const { actions, stateStore } = createTestStore('test');
+    const listener = jest.fn();
+    stateStore.subscribe(listener);
+
+    batch(() => {
+      batch(() => actions.increment());
+      expect(listener).not.toHaveBeenCalled();
+      actions.increment();
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('Notifies listeners about updates made before an error', () => {
+    const { actions, stateStore } = createTestStore('test');
+    const listener = jest.fn();
+    stateStore.subscribe(listener);
+
+    expect(() =>
+      batch(() => {
+        actions.increment();
+        actions.fail();
+      }),
+    ).toThrow('failed');
+    expect(stateStore.getState()).toEqual({ value: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('Rolls back every store when a transaction throws', () => {
+    const counter = createTestStore('counter');
+    const other = createTestStore('other');
+    const snapshot = counter.stateStore.getSnapshot();
+    const listener = jest.fn();
+    counter.stateStore.subscribe(listener);
+    other.stateStore.subscribe(listener);
+    let renderCount = 0;
+    renderHook(() => {
+      renderCount++;
+      counter.useStore((store) => store.counter.value);
+      other.useStore((store) => store.other.value);
+    });
+
+    act(() => {
+      expect(() =>
+        transaction(() => {
+          counter.actions.increment();
+          other.actions.increment();
+          counter.actions.fail();
+        }),
+      ).toThrow('failed');
+    });
+
+    expect(counter.store.counter).toEqual(initialState);
+    expect(other.store.other).toEqual(initialState);
+    expect(counter.stateStore.getSnapshot()).toBe(snapshot);
+    expect(listener).not.toHaveBeenCalled();
+    expect(renderCount).toBe(1);
+  });
+
+  it('Commits the transaction when nothing throws', () => {
+    const { actions, useStore } = createTestStore('test');
+    let renderCount = 0;
+    const { result } = renderHook(() => {
+      renderCount++;
+      return useStore((store) => store.test.value);
+    });
+
+    act(() => {
+      transaction(() => {
+        actions.increment();
+        actions.increment();
+      });
+    });
+    expect(result.current).toBe(2);
+    expect(renderCount).toBe(2);
+  });
+
+  it('Only rolls back updates made inside a nested transaction', () => {
+    const { actions, stateStore } = createTestStore('test');
+    const listener = jest.fn();
+    stateStore.subscribe(listener);
+
+    batch(() => {
+      actions.increment();
+      expect(() =>
+        transaction(() => {
+          actions.increment();
+          actions.fail();
+        }),
+      ).toThrow('failed');
+      expect(stateStore.getState()).toEqual({ value: 1 });
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ test: { value: 1 } });
+  });
+
+  it('Rolls back updates from a successful inner transaction', () => {
+    const { actions, stateStore } = createTestStore('test');
+
+    expect(() =>
+      transaction(() => {
+        transaction(() => actions.increment());
+        actions.fail();
+      }),
+    ).toThrow('failed');
+    expect(stateStore.getState()).toEqual(initialState);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { combineStores, createStore } from '../src/barebone';
+
+describe('combineStores()', () => {
+  const createTestStores = () => {
+    const counterStore = createStore({
+      name: 'counter',
+      initialState: { count: 0 },
+      actions: {
+        increment: (state) => ({ ...state, count: state.count + 1 }),
+      },
+    });
+    const userStore = createStore({
+      name: 'user',
+      initialState: { name: 'user', isUpdating: false },
+      actions: {
+        setName: (state, name: string) => ({ ...state, name }),
+        setIsUpdating: (state, isUpdating: boolean) => ({
+          ...state,
+          isUpdating,
+        }),
+      },
+    });
+    return { counterStore, userStore };
+  };
+
+  it('Selects from multiple stores in one hook', () => {
+    const { counterStore, userStore } = createTestStores();
+    const { useStore, store } = combineStores(counterStore, userStore);
+
+    const { result } = renderHook(() =>
+      useStore((store) => [store.counter.count, store.user.name]),
+    );
+    expect(result.current).toEqual([0, 'user']);
+
+    act(() => counterStore.actions.increment());
+    expect(result.current).toEqual([1, 'user']);
+
+    act(() => userStore.actions.setName('new user'));
+    expect(result.current).toEqual([1, 'new user']);
+
+    expect(store.counter.count).toBe(1);
+    expect(store.user.name).toBe('new user');
+  });
+
+  it('Renders once when several stores change together', () => {
+    const { counterStore, userStore } = createTestStores();
+    const { useStore } = combineStores(counterStore, userStore);
+
+    let renderCount = 0;
+    renderHook(() => {
+      renderCount++;
+      return useStore((store) => [store.counter.count, store.user.name]);
+    });
+    expect(renderCount).toBe(1);
+
+    act(() => {
+      counterStore.actions.increment();
+      userStore.actions.setName('new user');
+    });
+    expect(renderCount).toBe(2);
+  });
+
+  it('Does not render when unselected values change', () => {
+    const { counterStore, userStore } = createTestStores();
+    const { useStore } = combineStores(counterStore, userStore);
+
+    let renderCount = 0;
+    renderHook(() => {
+      renderCount++;
+      return useStore((store) => [store.counter.count, store.user.name]);
+    });
+
+    act(() => userStore.actions.setIsUpdating(true));
+    expect(renderCount).toBe(1);
+  });
+});
@@ -0,0 +1,199 @@
+import { createStore } from '../src/barebone';
+import type { ConcurrencyPolicy } from '../src/barebone';
+import { createDeferred, initialState, name } from './helpers';
+import type { TestCounter } from './helpers';
+
+describe('async action concurrency', () => {
+  const createTestStore = (policy?: ConcurrencyPolicy) => {
+    const signals: AbortSignal[] = [];
+    const started: number[] = [];
+    const result = createStore({
+      name,
+      initialState,
+      asyncActions: {
+        setValueAsync: async (
+          getState,
+          value: number,
+          wait: Promise<void> = Promise.resolve(),
+        ) => {
+          signals.push(getState.signal);
+          started.push(value);
+          await wait;
+          return { ...getState(), value };
+        },
+      },
+      concurrency: { setValueAsync: policy },
+    });
+    const updateState = jest.spyOn(result.stateStore, 'updateState');
+    return { ...result, signals, started, updateState };
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('Commits every call by default', async () => {
+    const { asyncActions, store, updateState } = createTestStore();
+    const first = createDeferred<void>();
+
+    const firstCall = asyncActions.setValueAsync(1, first.promise);
+    await asyncActions.setValueAsync(2);
+    first.resolve();
+    await firstCall;
+
+    expect(updateState).toHaveBeenCalledTimes(2);
+    expect(store[name].value).toBe(1);
+  });
+
+  it('Aborts the signal and skips the update when aborted', async () => {
+    const { asyncActions, abortAsyncAction, store, signals, updateState } =
+      createTestStore();
+    const wait = createDeferred<void>();
+
+    const call = asyncActions.setValueAsync(1, wait.promise);
+    abortAsyncAction('setValueAsync');
+    expect(signals[0].aborted).toBe(true);
+
+    // The call settles without waiting for the action.
+    await call;
+    wait.resolve();
+    await wait.promise;
+    expect(updateState).not.toHaveBeenCalled();
+    expect(store[name].value).toBe(0);
+  });
+
+  it('Ignores errors thrown after the call is aborted', async () => {
+    const onError = jest.fn();
+    const { asyncActions, abortAsyncAction, getActionStatus } = createStore({
+      name,
+      initialState,
+      asyncActions: {
+        fetchValue: (getState) =>
+          new Promise<TestCounter>((_, reject) => {
+            getState.signal.addEventListener('abort', () =>
+              reject(new Error('aborted')),
+            );
+          }),
+      },
+      onError,
+    });
+
+    const call = asyncActions.fetchValue();
+    expect(getActionStatus('fetchValue').status).toBe('pending');
+    abortAsyncAction('fetchValue');
+    await call;
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(getActionStatus('fetchValue')).toEqual({
+      status: 'idle',
+      pendingCount: 0,
+    });
+  });
+
+  it('Cancels the previous call using takeLatest', async () => {
+    const { asyncActions, store, signals, updateState } =
+      createTestStore('takeLatest');
+    const first = createDeferred<void>();
+    const second = createDeferred<void>();
+
+    const firstCall = asyncActions.setValueAsync(1, first.promise);
+    const secondCall = asyncActions.setValueAsync(2, second.promise);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+
+    second.resolve();
+    await secondCall;
+    first.resolve();
+    await firstCall;
+
+    expect(updateState).toHaveBeenCalledTimes(1);
+    expect(store[name].value).toBe(2);
+  });
+
+  it.each(['takeFirst', 'exhaust'] as const)(
+    'Ignores calls while running using %s',
+    async (policy) => {
+      const { asyncActions, store, started } = createTestStore(policy);
+      const first = createDeferred<void>();
+
+      const firstCall = asyncActions.setValueAsync(1, first.promise);
+      await asyncActions.setValueAsync(2);
+      first.resolve();
+      await firstCall;
+      await asyncActions.setValueAsync(3);
+
+      expect(started).toEqual([1, 3]);
+      expect(store[name].value).toBe(3);
+    },
+  );
+
+  it.each(['queue', 'serial'] as const)(
+    'Runs calls one after another using %s',
+    async (policy) => {
+      const { asyncActions, store, started } = createTestStore(policy);
+      const first = createDeferred<void>();
+
+      const firstCall = asyncActions.setValueAsync(1, first.promise);
+      const secondCall = asyncActions.setValueAsync(2);
+      await Promise.resolve();
+      expect(started).toEqual([1]);
+
+      first.resolve();
+      await Promise.all([firstCall, secondCall]);
+      expect(started).toEqual([1, 2]);
+      expect(store[name].value).toBe(2);
+    },
+  );
+
+  it('Cancels waiting calls in the queue when aborted', async () => {
+    const { asyncActions, abortAsyncAction, store, started, updateState } =
+      createTestStore('queue');
+    const first = createDeferred<void>();
+
+    const firstCall = asyncActions.setValueAsync(1, first.promise);
+    const secondCall = asyncActions.setValueAsync(2);
+    abortAsyncAction('setValueAsync');
+    first.resolve();
+    await Promise.all([firstCall, secondCall]);
+
+    expect(started).toEqual([1]);
+    expect(updateState).not.toHaveBeenCalled();
+    expect(store[name].value).toBe(0);
+
+    await asyncActions.setValueAsync(3);
+    expect(store[name].value).toBe(3);
+  });
+
+  it('Only runs the last call using debounce', async () => {
+    jest.useFakeTimers();
+    const { asyncActions, store, started } = createTestStore({
+      debounce: 100,
+    });
+
+    const firstCall = asyncActions.setValueAsync(1);
+    jest.advanceTimersByTime(50);
+    const secondCall = asyncActions.setValueAsync(2);
+    await firstCall;
+    expect(started).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    await secondCall;
+    expect(started).toEqual([2]);
+    expect(store[name].value).toBe(2);
+  });
+
+  it('Ignores calls made too soon using throttle', async () => {
+    jest.useFakeTimers();
+    const { asyncActions, store, started } = createTestStore({
+      throttle: 100,
+    });
+
+    await asyncActions.setValueAsync(1);
+    await asyncActions.setValueAsync(2);
+    jest.advanceTimersByTime(100);
+    await asyncActions.setValueAsync(3);
+
+    expect(started).toEqual([1, 3]);
+    expect(store[name].value).toBe(3);
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * @jest-environment jsdom
  */
+import { startTransition, useLayoutEffect } from 'react';
 import { act, renderHook, waitFor } from '@testing-library/react';
 import { createStore } from '../src/barebone';
 
@@ -93,6 +94,53 @@ describe('createStore()', () => {
       act(() => actions.increment());
       expect(mockCheckFn).toBeCalledTimes(1);
     });
+
+    it('Receives updates fired before the hook subscribes', () => {
+      const expected = store.test.value + 42;
+
+      // Layout effects run before the hook subscribes to the store,
+      // the update should not be lost.
+      const { result } = renderHook(() => {
+        const value = useStore((store) => store.test.value);
+        useLayoutEffect(() => {
+          actions.setCounterValue(expected);
+        }, []);
+        return value;
+      });
+
+      expect(result.current).toEqual(expected);
+    });
+
+    it('Returns the same value to every hook during a transition', () => {
+      const hooks = [1, 2, 3].map(() =>
+        renderHook(() => useStore((store) => store.test.value)),
+      );
+      const expected = store.test.value + 1;
+
+      act(() => {
+        startTransition(() => {
+          actions.increment();
+        });
+      });
+
+      hooks.forEach(({ result }) => {
+        expect(result.current).toEqual(expected);
+      });
+    });
+
+    it('Keeps the selected array when the elements have not changed', () => {
+      const { result } = renderHook(() =>
+        useStore((store) => [store.test.value, store.test.isUpdating]),
+      );
+      const oldResult = result.current;
+
+      act(() => actions.setCounterValue(store.test.value));
+      expect(result.current).toBe(oldResult);
+
+      act(() => actions.increment());
+      expect(result.current).not.toBe(oldResult);
+      expect(result.current[0]).toEqual(store.test.value);
+    });
   });
 
   // Actions.
@@ -0,0 +1,119 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { createCounterStore, initialState } from './helpers';
+
+describe('devtools', () => {
+  // Stand-in for the Redux DevTools extension.
+  const createFakeExtension = () => {
+    const connection = {
+      init: jest.fn(),
+      send: jest.fn(),
+      listener: undefined as undefined | ((message: unknown) => void),
+      subscribe: jest.fn((listener) => {
+        connection.listener = listener;
+        return () => {};
+      }),
+    };
+    const extension = { connect: jest.fn(() => connection) };
+    return { extension, connection };
+  };
+
+  const createTestStore = () =>
+    createCounterStore({ devtools: { name: 'counter store' } });
+
+  afterEach(() => {
+    delete window.__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it('Does nothing when the extension is not installed', () => {
+    const { actions, store } = createTestStore();
+    actions.setValue(1);
+    expect(store.test.value).toBe(1);
+  });
+
+  it('Connects to the extension with the initial state', () => {
+    const { extension, connection } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    createTestStore();
+
+    expect(extension.connect).toBeCalledWith({ name: 'counter store' });
+    expect(connection.init).toBeCalledWith(initialState);
+  });
+
+  it('Reports sync and async actions with their payload', async () => {
+    const { extension, connection } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { actions, asyncActions } = createTestStore();
+
+    actions.setValue(1);
+    await asyncActions.setValueAsync(2);
+
+    expect(connection.send).toHaveBeenNthCalledWith(
+      1,
+      { type: 'setValue', payload: [1] },
+      { ...initialState, value: 1 },
+    );
+    expect(connection.send).toHaveBeenNthCalledWith(
+      2,
+      { type: 'setValueAsync', payload: [2] },
+      { ...initialState, value: 2 },
+    );
+  });
+
+  it('Updates the store and hooks when time travelling', () => {
+    const { extension, connection } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { actions, store, useStore } = createTestStore();
+    const { result } = renderHook(() => useStore((store) => store.test.value));
+
+    act(() => actions.setValue(1));
+    act(() => actions.setValue(2));
+
+    act(
+      () =>
+        connection.listener?.({
+          type: 'DISPATCH',
+          payload: { type: 'JUMP_TO_STATE' },
+          state: JSON.stringify({ ...initialState, value: 1 }),
+        }),
+    );
+    expect(store.test.value).toBe(1);
+    expect(result.current).toBe(1);
+
+    act(
+      () =>
+        connection.listener?.({
+          type: 'DISPATCH',
+          payload: { type: 'JUMP_TO_ACTION' },
+          state: JSON.stringify({ ...initialState, value: 2 }),
+        }),
+    );
+    expect(result.current).toBe(2);
+
+    // Time travelling isn't reported back as an action.
+    expect(connection.send).toBeCalledTimes(2);
+  });
+
+  it('Imports state from the extension', () => {
+    const { extension, connection } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { store } = createTestStore();
+
+    const nextLiftedState = {
+      computedStates: [
+        { state: initialState },
+        { state: { ...initialState, value: 7 } },
+      ],
+      currentStateIndex: 1,
+    };
+    connection.listener?.({
+      type: 'DISPATCH',
+      payload: { type: 'IMPORT_STATE', nextLiftedState },
+    });
+
+    expect(store.test.value).toBe(7);
+    expect(connection.send).toBeCalledWith(null, nextLiftedState);
+  });
+});
@@ -0,0 +1,202 @@
+import { createStore, draft, draftAsync, produce } from '../src/barebone';
+
+describe('draft actions', () => {
+  interface Todo {
+    title: string;
+    done: boolean;
+  }
+  interface TestTodos {
+    todos: Todo[];
+    filter: { done: boolean };
+    count: number;
+  }
+
+  const initialState: TestTodos = {
+    todos: [
+      { title: 'a', done: false },
+      { title: 'b', done: false },
+    ],
+    filter: { done: false },
+    count: 0,
+  };
+  const name = 'test';
+
+  const createTestStore = () =>
+    createStore({
+      name,
+      initialState,
+      actions: {
+        addTodo: draft((state, title: string) => {
+          state.todos.push({ title, done: false });
+        }),
+        toggle: draft((state, index: number) => {
+          state.todos[index].done = !state.todos[index].done;
+        }),
+        increment: draft((state) => {
+          state.count++;
+        }),
+        replace: draft((_state, state: TestTodos) => state),
+      },
+      asyncActions: {
+        loadTodos: draftAsync(async (getState, todos: Promise<Todo[]>) => {
+          const loaded = await todos;
+          getState().todos.push(...loaded);
+        }),
+      },
+    });
+
+  it('Creates the next state from the changes made to the draft', () => {
+    const { actions, store } = createTestStore();
+
+    actions.addTodo('c');
+    actions.toggle(0);
+    actions.increment();
+
+    expect(store[name]).toEqual({
+      todos: [
+        { title: 'a', done: true },
+        { title: 'b', done: false },
+        { title: 'c', done: false },
+      ],
+      filter: { done: false },
+      count: 1,
+    });
+    // The initial state is never mutated.
+    expect(initialState.todos).toHaveLength(2);
+    expect(initialState.todos[0].done).toBe(false);
+  });
+
+  it('Keeps the identity of unchanged parts of the state', () => {
+    const { actions, store } = createTestStore();
+
+    actions.toggle(0);
+    expect(store[name]).not.toBe(initialState);
+    expect(store[name].todos[0]).not.toBe(initialState.todos[0]);
+    expect(store[name].todos[1]).toBe(initialState.todos[1]);
+    expect(store[name].filter).toBe(initialState.filter);
+  });
+
+  it('Uses the returned value instead of the draft', () => {
+    const { actions, store } = createTestStore();
+    const state = { ...initialState, count: 10 };
+
+    actions.replace(state);
+    expect(store[name]).toEqual(state);
+  });
+
+  it('Creates the next state in async actions', async () => {
+    const { asyncActions, actions, store } = createTestStore();
+    let resolve: (todos: Todo[]) => void = () => {};
+    const call = asyncActions.loadTodos(
+      new Promise((res) => {
+        resolve = res;
+      }),
+    );
+
+    // Updates made while waiting aren't lost.
+    actions.increment();
+    resolve([{ title: 'c', done: false }]);
+    await call;
+
+    expect(store[name].count).toBe(1);
+    expect(store[name].todos.map((todo) => todo.title)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(store[name].filter).toBe(initialState.filter);
+  });
+
+  it('Keeps changes made to the draft before awaiting', async () => {
+    const { asyncActions, actions, store } = createStore({
+      name,
+      initialState: { a: 0, b: 0 },
+      actions: {
+        incrementB: (state) => ({ ...state, b: state.b + 1 }),
+      },
+      asyncActions: {
+        update: draftAsync(async (getState, request: Promise<void>) => {
+          getState().a = 1;
+          await request;
+          getState().b++;
+        }),
+      },
+    });
+    let resolve: () => void = () => {};
+    const call = asyncActions.update(
+      new Promise((res) => {
+        resolve = res;
+      }),
+    );
+
+    actions.incrementB();
+    actions.incrementB();
+    resolve();
+    await call;
+    expect(store[name]).toEqual({ a: 1, b: 3 });
+  });
+
+  it('Infers the payload of draft actions', () => {
+    const { actions, asyncActions } = createTestStore();
+
+    // @ts-expect-error The payload must be a string.
+    actions.addTodo(1);
+    // @ts-expect-error Actions without a payload don't accept params.
+    actions.increment(1);
+    // @ts-expect-error The payload must be a promise.
+    void asyncActions.loadTodos([]).catch(() => {});
+  });
+
+  describe('produce()', () => {
+    it('Returns the same state when nothing changes', () => {
+      const state = { list: [1, 2], nested: { value: 1 } };
+      const nextState = produce(state, (draft) => {
+        draft.nested.value = 1;
+        void draft.list.length;
+      });
+      expect(nextState).toBe(state);
+    });
+
+    it('Supports deleting, array methods and assigning drafts', () => {
+      const state: {
+        list: number[];
+        a?: { value: number };
+        b?: { value: number };
+      } = { list: [3, 1, 2], a: { value: 1 } };
+
+      const nextState = produce(state, (draft) => {
+        draft.list.sort();
+        draft.list.splice(0, 1);
+        draft.b = { value: draft.a?.value ?? 0 };
+        draft.a!.value = 2;
+        delete draft.a;
+      });
+
+      expect(nextState).toEqual({ list: [2, 3], b: { value: 1 } });
+      expect(state).toEqual({ list: [3, 1, 2], a: { value: 1 } });
+    });
+
+    it('Finalizes drafts assigned to new objects', () => {
+      const state = { a: { value: 1 }, wrapper: {} as object };
+      const nextState = produce(state, (draft) => {
+        draft.a.value = 2;
+        draft.wrapper = { inner: draft.a };
+      });
+
+      expect(nextState.wrapper).toEqual({ inner: { value: 2 } });
+      expect(nextState.a).toBe((nextState.wrapper as { inner: object }).inner);
+    });
+
+    it("Doesn't allow drafts to be used after finishing", () => {
+      let leaked: { value: number } = { value: 0 };
+      produce({ value: 1 }, (draft) => {
+        leaked = draft;
+      });
+      expect(() => leaked.value).toThrow(TypeError);
+    });
+
+    it('Supports states that are not objects', () => {
+      expect(produce(1, (value) => value + 1)).toBe(2);
+    });
+  });
+});
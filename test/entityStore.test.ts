@@ -0,0 +1,148 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { createEntityStore } from '../src/barebone';
+import { countRenders } from '../src/barebone/testing';
+
+describe('createEntityStore()', () => {
+  interface Todo {
+    id: number;
+    title: string;
+    done: boolean;
+  }
+
+  const first: Todo = { id: 1, title: 'first', done: false };
+  const second: Todo = { id: 2, title: 'second', done: false };
+  const third: Todo = { id: 3, title: 'third', done: false };
+
+  const createTodoStore = (sortComparer?: (a: Todo, b: Todo) => number) =>
+    createEntityStore({
+      name: 'todos',
+      initialEntities: [first, second],
+      selectId: (todo: Todo) => todo.id,
+      sortComparer,
+    });
+
+  it('Normalizes the initial entities', () => {
+    const { store, selectAll, selectById, selectTotal } = createTodoStore();
+    expect(store.todos).toEqual({
+      ids: [1, 2],
+      entities: { 1: first, 2: second },
+    });
+    expect(selectAll(store)).toEqual([first, second]);
+    expect(selectById(store, 2)).toBe(second);
+    expect(selectById(store, 4)).toBeUndefined();
+    expect(selectTotal(store)).toBe(2);
+  });
+
+  it('Adds entities, skipping ids that are already in the store', () => {
+    const { actions, stateStore, selectAll, store } = createTodoStore();
+    const before = stateStore.getState();
+
+    actions.addOne({ ...first, title: 'duplicate' });
+    expect(stateStore.getState()).toBe(before);
+
+    actions.addOne(third);
+    actions.addMany([{ id: 4, title: 'fourth', done: true }, third]);
+    expect(store.todos.ids).toEqual([1, 2, 3, 4]);
+    expect(selectAll(store)[2]).toBe(third);
+  });
+
+  it('Upserts entities', () => {
+    const { actions, store, selectById } = createTodoStore();
+    actions.upsertMany([{ ...first, done: true }, third]);
+
+    expect(store.todos.ids).toEqual([1, 2, 3]);
+    expect(selectById(store, 1)).toEqual({ ...first, done: true });
+    expect(selectById(store, 2)).toBe(second);
+  });
+
+  it('Updates an entity', () => {
+    const { actions, stateStore, store, selectById } = createTodoStore();
+    actions.updateOne({ id: 1, changes: { done: true } });
+    expect(selectById(store, 1)).toEqual({ ...first, done: true });
+    expect(selectById(store, 2)).toBe(second);
+
+    const before = stateStore.getState();
+    actions.updateOne({ id: 5, changes: { done: true } });
+    expect(stateStore.getState()).toBe(before);
+  });
+
+  it('Updates the id of an entity', () => {
+    const { actions, store, selectById } = createTodoStore();
+    actions.updateOne({ id: 1, changes: { id: 5 } });
+
+    expect(store.todos.ids).toEqual([5, 2]);
+    expect(selectById(store, 1)).toBeUndefined();
+    expect(selectById(store, 5)).toEqual({ ...first, id: 5 });
+  });
+
+  it('Removes entities', () => {
+    const { actions, stateStore, store, selectTotal } = createTodoStore();
+    const before = stateStore.getState();
+    actions.removeMany([7]);
+    expect(stateStore.getState()).toBe(before);
+
+    actions.removeMany([1, 7]);
+    expect(store.todos).toEqual({ ids: [2], entities: { 2: second } });
+    expect(selectTotal(store)).toBe(1);
+  });
+
+  it('Replaces every entity', () => {
+    const { actions, store } = createTodoStore();
+    actions.setAll([third]);
+    expect(store.todos).toEqual({ ids: [3], entities: { 3: third } });
+  });
+
+  it('Keeps the entities sorted with sortComparer', () => {
+    const { actions, store, selectAll } = createTodoStore((a, b) =>
+      b.title.localeCompare(a.title),
+    );
+    expect(store.todos.ids).toEqual([2, 1]);
+
+    actions.addOne(third);
+    expect(store.todos.ids).toEqual([3, 2, 1]);
+
+    actions.updateOne({ id: 1, changes: { title: 'z' } });
+    expect(selectAll(store).map((todo) => todo.title)).toEqual([
+      'z',
+      'third',
+      'second',
+    ]);
+  });
+
+  it('Defaults to the id property of the entities', () => {
+    const { store } = createEntityStore({
+      name: 'todos',
+      initialEntities: [first],
+    });
+    expect(store.todos.ids).toEqual([1]);
+  });
+
+  it("Doesn't rerender when a different entity changes", () => {
+    const { actions, useStore, selectById } = createTodoStore();
+    const counter = countRenders(() =>
+      useStore((store) => selectById(store, 1)),
+    );
+    const { result } = renderHook(counter.useHook);
+    expect(counter.renders).toBe(1);
+
+    act(() => actions.updateOne({ id: 2, changes: { done: true } }));
+    act(() => actions.addOne(third));
+    expect(counter.renders).toBe(1);
+
+    act(() => actions.updateOne({ id: 1, changes: { done: true } }));
+    expect(counter.renders).toBe(2);
+    expect(result.current).toEqual({ ...first, done: true });
+  });
+
+  it('Memoizes selectAll', () => {
+    const { actions, store, selectAll } = createTodoStore();
+    const all = selectAll(store);
+    expect(selectAll(store)).toBe(all);
+
+    actions.addOne(third);
+    expect(selectAll(store)).toHaveLength(3);
+  });
+});
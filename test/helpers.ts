@@ -0,0 +1,63 @@
+import { createStore } from '../src/barebone';
+import type { GetState } from '../src/barebone';
+import type { StoreOptions } from '../src/barebone/types';
+
+/** The state of the counter store the tests share. */
+export interface TestCounter {
+  value: number;
+  isUpdating: boolean;
+}
+
+export const initialState: TestCounter = { value: 0, isUpdating: false };
+export const name = 'test';
+
+const counterActions = {
+  increment: (state: TestCounter) => ({ ...state, value: state.value + 1 }),
+  setValue: (state: TestCounter, value: number) => ({ ...state, value }),
+  setIsUpdating: (state: TestCounter, isUpdating: boolean) => ({
+    ...state,
+    isUpdating,
+  }),
+};
+
+const counterAsyncActions = {
+  setValueAsync: async (getState: GetState<TestCounter>, value: number) => {
+    const result = await Promise.resolve(value);
+    return { ...getState(), value: result };
+  },
+};
+
+/** Options of the counter store apart from its state and actions. */
+export type CounterStoreOptions = Omit<
+  StoreOptions<
+    TestCounter,
+    typeof name,
+    typeof counterActions,
+    typeof counterAsyncActions
+  >,
+  'name' | 'initialState' | 'actions' | 'asyncActions'
+>;
+
+/**
+ * Creates the counter store with the options of the feature that is
+ * being tested.
+ */
+export const createCounterStore = (options: CounterStoreOptions = {}) =>
+  createStore({
+    name,
+    initialState,
+    actions: counterActions,
+    asyncActions: counterAsyncActions,
+    ...options,
+  });
+
+/** Creates a promise that can be resolved or rejected from the test. */
+export const createDeferred = <T>() => {
+  let resolve: (value: T) => void = () => {};
+  let reject: (error: unknown) => void = () => {};
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
@@ -0,0 +1,192 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { createStore, transaction } from '../src/barebone';
+import { createCounterStore, initialState, name } from './helpers';
+
+describe('history', () => {
+  const createTestStore = (limit?: number) =>
+    createCounterStore({ history: { limit, exclude: ['setIsUpdating'] } });
+
+  it('Undoes and redoes updates', () => {
+    const { actions, store, undo, redo } = createTestStore();
+
+    actions.setValue(1);
+    actions.setValue(2);
+
+    undo();
+    expect(store.test.value).toBe(1);
+    undo();
+    expect(store.test.value).toBe(0);
+    // Nothing left to undo.
+    undo();
+    expect(store.test.value).toBe(0);
+
+    redo();
+    expect(store.test.value).toBe(1);
+    redo();
+    expect(store.test.value).toBe(2);
+  });
+
+  it('Records async actions', async () => {
+    const { asyncActions, store, undo } = createTestStore();
+
+    await asyncActions.setValueAsync(5);
+    undo();
+    expect(store.test.value).toBe(0);
+  });
+
+  it('Clears future states after a new update', () => {
+    const { actions, store, undo, redo } = createTestStore();
+
+    actions.setValue(1);
+    undo();
+    actions.setValue(2);
+    redo();
+    expect(store.test.value).toBe(2);
+  });
+
+  it('Keeps up to the limit of past states', () => {
+    const { actions, store, undo } = createTestStore(2);
+
+    actions.increment();
+    actions.increment();
+    actions.increment();
+
+    undo();
+    undo();
+    undo();
+    expect(store.test.value).toBe(1);
+  });
+
+  it('Does not record excluded actions', () => {
+    const { actions, store, undo } = createTestStore();
+
+    actions.setValue(1);
+    actions.setIsUpdating(true);
+    actions.setValue(2);
+
+    undo();
+    expect(store.test).toEqual({ value: 1, isUpdating: true });
+    undo();
+    expect(store.test).toEqual({ value: 0, isUpdating: false });
+  });
+
+  it('Groups several actions into one step', async () => {
+    const { actions, asyncActions, store, undo, groupHistory } =
+      createTestStore();
+
+    actions.setValue(1);
+    const result = groupHistory(() => {
+      actions.increment();
+      actions.increment();
+      return 'done';
+    });
+    expect(result).toBe('done');
+    expect(store.test.value).toBe(3);
+
+    undo();
+    expect(store.test.value).toBe(1);
+
+    await groupHistory(() => {
+      actions.increment();
+      return asyncActions.setValueAsync(10);
+    });
+    expect(store.test.value).toBe(10);
+
+    undo();
+    expect(store.test.value).toBe(1);
+  });
+
+  it("Doesn't group actions called while an async action in a group runs", async () => {
+    const { actions, asyncActions, store, undo, groupHistory } =
+      createTestStore();
+
+    const call = groupHistory(() => {
+      actions.increment();
+      return asyncActions.setValueAsync(10);
+    });
+    actions.setValue(5);
+    await call;
+    expect(store.test.value).toBe(10);
+
+    // The update of the async action is recorded after `setValue`.
+    undo();
+    expect(store.test.value).toBe(5);
+    undo();
+    expect(store.test.value).toBe(1);
+    undo();
+    expect(store.test.value).toBe(0);
+  });
+
+  it('Clears the history', () => {
+    const { actions, store, undo, clearHistory } = createTestStore();
+
+    actions.setValue(1);
+    clearHistory();
+    undo();
+    expect(store.test.value).toBe(1);
+  });
+
+  it('Exposes whether undo and redo are available', () => {
+    const { actions, undo, useHistory } = createTestStore();
+    const { result } = renderHook(() => useHistory());
+
+    expect(result.current).toEqual({ canUndo: false, canRedo: false });
+
+    act(() => actions.increment());
+    expect(result.current).toEqual({ canUndo: true, canRedo: false });
+
+    act(() => undo());
+    expect(result.current).toEqual({ canUndo: false, canRedo: true });
+  });
+
+  it('Rolls back the history with a transaction', () => {
+    const { actions, store, undo, redo, useHistory } = createTestStore();
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useHistory();
+    });
+    act(() => actions.setValue(1));
+    act(() => actions.setValue(2));
+    act(() => undo());
+
+    renders = 0;
+    expect(() =>
+      act(() =>
+        transaction(() => {
+          actions.setValue(5);
+          actions.setValue(6);
+          throw new Error('failed');
+        }),
+      ),
+    ).toThrow('failed');
+    expect(store.test.value).toBe(1);
+    expect(renders).toBe(0);
+    expect(result.current).toEqual({ canUndo: true, canRedo: true });
+
+    // The steps from before the transaction are kept.
+    act(() => redo());
+    expect(store.test.value).toBe(2);
+    act(() => undo());
+    act(() => undo());
+    expect(store.test.value).toBe(0);
+    expect(result.current).toEqual({ canUndo: false, canRedo: true });
+  });
+
+  it('Does nothing when history is not enabled', () => {
+    const { actions, store, undo } = createStore({
+      name,
+      initialState,
+      actions: {
+        increment: (state) => ({ ...state, value: state.value + 1 }),
+      },
+    });
+
+    actions.increment();
+    undo();
+    expect(store.test.value).toBe(1);
+  });
+});
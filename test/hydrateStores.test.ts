@@ -0,0 +1,77 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement } from 'react';
+import { hydrateRoot } from 'react-dom/client';
+import { act } from '@testing-library/react';
+import { StoreRegistry, createStore, hydrateStores } from '../src/barebone';
+
+describe('hydrateStores()', () => {
+  interface TestCounter {
+    value: number;
+    label: string;
+  }
+
+  const initialState: TestCounter = { value: 0, label: '' };
+
+  const createTestStores = () => {
+    const registry = new StoreRegistry();
+    const counter = createStore({ name: 'counter', initialState, registry });
+    const other = createStore({ name: 'other', initialState, registry });
+    return { registry, counter, other };
+  };
+
+  it('Sets the state of each store by name', () => {
+    const { registry, counter, other } = createTestStores();
+    const missing = hydrateStores(
+      { counter: { value: 5, label: 'b' }, removed: initialState },
+      registry,
+    );
+
+    expect(missing).toEqual(['removed']);
+    expect(counter.store.counter).toEqual({ value: 5, label: 'b' });
+    expect(counter.stateStore.getServerSnapshot()).toBe(
+      counter.stateStore.getSnapshot(),
+    );
+    expect(other.store.other).toEqual(initialState);
+
+    // Updates after hydrating don't change the server snapshot.
+    counter.stateStore.updateState({ value: 6, label: 'c' });
+    expect(counter.stateStore.getServerSnapshot().counter).toEqual({
+      value: 5,
+      label: 'b',
+    });
+  });
+
+  it('Hydrates the server markup without a mismatch', async () => {
+    const { registry, counter, other } = createTestStores();
+    const container = document.createElement('div');
+    // Rendered on the server with the state in the payload.
+    container.innerHTML = '<p>server:3:0</p>';
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    hydrateStores({ counter: { value: 3, label: 'server' } }, registry);
+    const renders: TestCounter[] = [];
+    const App = () => {
+      const counterValue = counter.useStore((store) => store.counter);
+      const otherValue = other.useStore((store) => store.other.value);
+      renders.push(counterValue);
+      return createElement(
+        'p',
+        null,
+        `${counterValue.label}:${counterValue.value}:${otherValue}`,
+      );
+    };
+    await act(async () => {
+      hydrateRoot(container, createElement(App));
+    });
+
+    expect(error).not.toHaveBeenCalled();
+    expect(renders).toEqual([{ value: 3, label: 'server' }]);
+    expect(container.innerHTML).toBe('<p>server:3:0</p>');
+
+    act(() => counter.stateStore.updateState({ value: 4, label: 'client' }));
+    expect(container.innerHTML).toBe('<p>client:4:0</p>');
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,164 @@
+import { ActionTypes, createStore, logger, timing } from '../src/barebone';
+import type { Middleware } from '../src/barebone';
+
+describe('middleware', () => {
+  interface TestCounter {
+    value: number;
+  }
+
+  const initialState: TestCounter = { value: 0 };
+  const name = 'test';
+
+  const createTestStore = (middleware: Middleware<TestCounter>[]) =>
+    createStore({
+      name,
+      initialState,
+      actions: {
+        increment: (state) => ({ ...state, value: state.value + 1 }),
+        setValue: (state, value: number) => ({ ...state, value }),
+      },
+      asyncActions: {
+        setValueAsync: async (getState, value: number) => {
+          const result = await Promise.resolve(value);
+          return { ...getState(), value: result };
+        },
+      },
+      middleware,
+    });
+
+  it('Passes information about sync actions to the middleware', () => {
+    const observer = jest.fn((context, next) => next(context.nextState));
+    const { actions, store } = createTestStore([observer]);
+
+    actions.setValue(5);
+
+    expect(observer).toBeCalledTimes(1);
+    expect(observer.mock.calls[0][0]).toEqual(
+      expect.objectContaining({
+        type: ActionTypes.sync,
+        name: 'setValue',
+        payload: [5],
+        prevState: { value: 0 },
+        nextState: { value: 5 },
+      }),
+    );
+    expect(store.test.value).toBe(5);
+  });
+
+  it('Passes information about async actions to the middleware', async () => {
+    const observer = jest.fn((context, next) => next(context.nextState));
+    const { asyncActions, store } = createTestStore([observer]);
+
+    await asyncActions.setValueAsync(10);
+
+    expect(observer.mock.calls[0][0]).toEqual(
+      expect.objectContaining({
+        type: ActionTypes.async,
+        name: 'setValueAsync',
+        payload: [10],
+        prevState: { value: 0 },
+        nextState: { value: 10 },
+      }),
+    );
+    expect(store.test.value).toBe(10);
+  });
+
+  it('Runs the middleware in order and commits the transformed state', () => {
+    const calls: string[] = [];
+    const { actions, store } = createTestStore([
+      (context, next) => {
+        calls.push('first');
+        next({ value: context.nextState.value * 10 });
+      },
+      (context, next) => {
+        calls.push(`second ${context.nextState.value}`);
+        next(context.nextState);
+      },
+    ]);
+
+    actions.increment();
+
+    expect(calls).toEqual(['first', 'second 10']);
+    expect(store.test.value).toBe(10);
+  });
+
+  it('Stops the update when a middleware does not call next', () => {
+    const last = jest.fn((context, next) => next(context.nextState));
+    const { actions, store } = createTestStore([
+      (context, next) => {
+        if (context.nextState.value < 100) next(context.nextState);
+      },
+      last,
+    ]);
+
+    actions.setValue(1000);
+    expect(store.test.value).toBe(0);
+    expect(last).not.toBeCalled();
+
+    actions.setValue(5);
+    expect(store.test.value).toBe(5);
+  });
+
+  it('Narrows the payload type by the action name', () => {
+    const payloads: number[] = [];
+    const { actions } = createStore({
+      name,
+      initialState,
+      actions: {
+        setValue: (state, value: number) => ({ ...state, value }),
+      },
+      middleware: [
+        (context, next) => {
+          if (context.type === ActionTypes.sync) {
+            const [value] = context.payload;
+            payloads.push(value);
+          }
+          next(context.nextState);
+        },
+      ],
+    });
+
+    actions.setValue(3);
+    expect(payloads).toEqual([3]);
+  });
+
+  describe('logger()', () => {
+    it('Logs each action', () => {
+      const log = jest.fn();
+      const { actions } = createTestStore([logger({ log })]);
+
+      actions.setValue(2);
+
+      expect(log).toBeCalledWith(
+        '[sync] setValue',
+        expect.objectContaining({
+          payload: [2],
+          prevState: { value: 0 },
+          nextState: { value: 2 },
+        }),
+      );
+    });
+  });
+
+  describe('timing()', () => {
+    it('Reports how long each action took', async () => {
+      const onTiming = jest.fn();
+      const { actions, asyncActions } = createTestStore([timing({ onTiming })]);
+
+      actions.increment();
+      await asyncActions.setValueAsync(3);
+
+      expect(onTiming).toBeCalledTimes(2);
+      expect(onTiming).toBeCalledWith(
+        'increment',
+        expect.any(Number),
+        ActionTypes.sync,
+      );
+      expect(onTiming).toBeCalledWith(
+        'setValueAsync',
+        expect.any(Number),
+        ActionTypes.async,
+      );
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { createStore } from '../src/barebone';
+import { createDeferred } from './helpers';
+
+describe('optimistic updates', () => {
+  interface TestTodos {
+    items: string[];
+    count: number;
+  }
+
+  const initialState: TestTodos = { items: [], count: 0 };
+  const name = 'test';
+
+  const createTestStore = () =>
+    createStore({
+      name,
+      initialState,
+      actions: {
+        increment: (state) => ({ ...state, count: state.count + 1 }),
+        addItem: (state, item: string) => ({
+          ...state,
+          items: [...state.items, item],
+        }),
+      },
+      asyncActions: {
+        saveItem: {
+          optimistic: (state, item: string) => ({
+            ...state,
+            items: [...state.items, `${item} (saving)`],
+          }),
+          run: async (_getState, item: string, request: Promise<void>) => {
+            await request;
+            return item;
+          },
+          commit: (state, savedItem: string, item: string) => ({
+            ...state,
+            items: state.items.map((value) =>
+              value === `${item} (saving)` ? savedItem : value,
+            ),
+          }),
+        },
+        setCount: async (getState, count: Promise<number>) => ({
+          ...getState(),
+          count: await count,
+        }),
+      },
+      concurrency: { saveItem: 'takeEvery' },
+    });
+
+  it('Applies the optimistic state right away and commits the result', async () => {
+    const { asyncActions, store } = createTestStore();
+    const request = createDeferred<void>();
+
+    const call = asyncActions.saveItem('a', request.promise);
+    expect(store[name].items).toEqual(['a (saving)']);
+
+    request.resolve();
+    await call;
+    expect(store[name].items).toEqual(['a']);
+  });
+
+  it('Rolls back the optimistic state when the request fails', async () => {
+    const { asyncActions, store } = createTestStore();
+    const request = createDeferred<void>();
+
+    const call = asyncActions.saveItem('a', request.promise);
+    request.reject(new Error('failed'));
+
+    await expect(call).rejects.toThrow('failed');
+    expect(store[name]).toEqual(initialState);
+  });
+
+  it('Replays sync actions made after the optimistic update on rollback', async () => {
+    const { asyncActions, actions, store } = createTestStore();
+    const request = createDeferred<void>();
+
+    actions.addItem('first');
+    const call = asyncActions.saveItem('a', request.promise);
+    actions.increment();
+    actions.addItem('b');
+    actions.increment();
+    expect(store[name]).toEqual({
+      items: ['first', 'a (saving)', 'b'],
+      count: 2,
+    });
+
+    request.reject(new Error('failed'));
+    await expect(call).rejects.toThrow('failed');
+    expect(store[name]).toEqual({ items: ['first', 'b'], count: 2 });
+
+    // Updates after the rollback aren't affected.
+    actions.increment();
+    expect(store[name]).toEqual({ items: ['first', 'b'], count: 3 });
+  });
+
+  it('Keeps committed optimistic updates when rolling back another one', async () => {
+    const { asyncActions, actions, store } = createTestStore();
+    const first = createDeferred<void>();
+    const second = createDeferred<void>();
+
+    const firstCall = asyncActions.saveItem('a', first.promise);
+    const secondCall = asyncActions.saveItem('b', second.promise);
+    actions.increment();
+
+    first.resolve();
+    await firstCall;
+    actions.addItem('c');
+    expect(store[name]).toEqual({
+      items: ['a', 'b (saving)', 'c'],
+      count: 1,
+    });
+
+    second.reject(new Error('failed'));
+    await expect(secondCall).rejects.toThrow('failed');
+    expect(store[name]).toEqual({ items: ['a', 'c'], count: 1 });
+  });
+
+  it('Replays results of other async actions on rollback', async () => {
+    const { asyncActions, store } = createTestStore();
+    const request = createDeferred<void>();
+
+    const call = asyncActions.saveItem('a', request.promise);
+    await asyncActions.setCount(Promise.resolve(5));
+
+    request.reject(new Error('failed'));
+    await expect(call).rejects.toThrow('failed');
+    expect(store[name]).toEqual({ items: [], count: 5 });
+  });
+
+  it('Rolls back the optimistic state when the result is invalid', async () => {
+    const { asyncActions, actions, store } = createStore({
+      name,
+      initialState,
+      validate: (state) => !state.items.includes('bad') || 'bad item',
+      actions: {
+        addItem: (state, item: string) => ({
+          ...state,
+          items: [...state.items, item],
+        }),
+      },
+      asyncActions: {
+        saveItem: {
+          optimistic: (state, item: string) => ({
+            ...state,
+            items: [...state.items, `${item} (saving)`],
+          }),
+          run: async (_getState, item: string) => item,
+          commit: (state, savedItem: string) => ({
+            ...state,
+            items: [...state.items.slice(0, -1), savedItem],
+          }),
+        },
+      },
+    });
+
+    await expect(asyncActions.saveItem('bad')).rejects.toThrow('bad item');
+    expect(store[name]).toEqual(initialState);
+
+    // The rolled back update isn't replayed by later updates.
+    actions.addItem('later');
+    expect(store[name]).toEqual({ items: ['later'], count: 0 });
+  });
+
+  it('Rolls back when the call is aborted', async () => {
+    const { asyncActions, actions, abortAsyncAction, store } =
+      createTestStore();
+    const request = createDeferred<void>();
+
+    const call = asyncActions.saveItem('a', request.promise);
+    actions.increment();
+    abortAsyncAction('saveItem');
+    await call;
+
+    expect(store[name]).toEqual({ items: [], count: 1 });
+    request.resolve();
+    await request.promise;
+    expect(store[name]).toEqual({ items: [], count: 1 });
+  });
+
+  it('Passes the optimistic state and rollback through middleware', async () => {
+    const middleware = jest.fn((context, next) => next(context.nextState));
+    const { asyncActions } = createStore({
+      name,
+      initialState,
+      asyncActions: {
+        saveItem: {
+          optimistic: (state, item: string) => ({
+            ...state,
+            items: [...state.items, item],
+          }),
+          run: async (_getState, item: string) => {
+            throw new Error(`failed to save ${item}`);
+          },
+          commit: (state) => state,
+        },
+      },
+      middleware: [middleware],
+      onError: () => {},
+    });
+
+    await asyncActions.saveItem('a');
+    expect(middleware).toHaveBeenCalledTimes(2);
+    expect(middleware.mock.calls[0][0]).toMatchObject({
+      name: 'saveItem',
+      payload: ['a'],
+      nextState: { items: ['a'], count: 0 },
+    });
+    expect(middleware.mock.calls[1][0]).toMatchObject({
+      name: 'saveItem',
+      nextState: initialState,
+    });
+  });
+});
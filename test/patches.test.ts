@@ -0,0 +1,257 @@
+import {
+  applyPatches,
+  batch,
+  createPatches,
+  createVanillaStore,
+  transaction,
+} from '../src/barebone';
+import type { Patch } from '../src/barebone';
+
+describe('JSON Patches', () => {
+  const roundTrips: [string, unknown, unknown][] = [
+    ['changed properties', { a: 1, b: 'b' }, { a: 2, b: 'b' }],
+    ['added and removed properties', { a: 1, b: 2 }, { a: 1, c: 3 }],
+    [
+      'nested objects',
+      { user: { name: 'a', tags: { x: true } }, other: { y: 1 } },
+      { user: { name: 'b', tags: { x: false, z: true } }, other: { y: 1 } },
+    ],
+    ['appended items', { items: [1, 2] }, { items: [1, 2, 3, 4] }],
+    ['removed items', { items: [1, 2, 3, 4] }, { items: [1] }],
+    [
+      'changed items',
+      { todos: [{ done: false }, { done: false }] },
+      { todos: [{ done: false }, { done: true, title: 'b' }] },
+    ],
+    ['changed types', { value: [1] }, { value: { 0: 1 } }],
+    ['keys that need escaping', { 'a/b': 1, 'c~d': 2 }, { 'a/b': 3 }],
+    ['whole states', 1, 'one'],
+    ['null values', { a: null }, { a: { b: null } }],
+    ['added inherited keys', {}, { constructor: 5, toString: 'a' }],
+    ['removed inherited keys', { toString: 1, valueOf: 2 }, {}],
+  ];
+
+  it.each(roundTrips)('Round trips %s', (_, prev, next) => {
+    const { patches, inversePatches } = createPatches(prev, next);
+    expect(applyPatches(prev, patches)).toStrictEqual(next);
+    expect(applyPatches(next, inversePatches)).toStrictEqual(prev);
+  });
+
+  it('Creates minimal patches with escaped paths', () => {
+    const shared = { big: [1, 2, 3] };
+    expect(
+      createPatches(
+        { shared, list: [1, 2, 3], 'a/b': 1 },
+        { shared, list: [1, 5], 'a/b': 2 },
+      ),
+    ).toEqual({
+      patches: [
+        { op: 'replace', path: '/list/1', value: 5 },
+        { op: 'remove', path: '/list/2' },
+        { op: 'replace', path: '/a~1b', value: 2 },
+      ],
+      inversePatches: [
+        { op: 'replace', path: '/a~1b', value: 1 },
+        { op: 'add', path: '/list/2', value: 3 },
+        { op: 'replace', path: '/list/1', value: 2 },
+      ],
+    });
+  });
+
+  it('Applies every operation without mutating the state', () => {
+    const state = Object.freeze({
+      list: Object.freeze([1, 2]),
+      user: Object.freeze({ name: 'a' }),
+      other: Object.freeze({ value: 1 }),
+    });
+    const patches: Patch[] = [
+      { op: 'add', path: '/list/-', value: 3 },
+      { op: 'add', path: '/list/0', value: 0 },
+      { op: 'test', path: '/list', value: [0, 1, 2, 3] },
+      { op: 'copy', from: '/user/name', path: '/user/nickname' },
+      { op: 'move', from: '/user/name', path: '/name' },
+      { op: 'replace', path: '/list/1', value: 10 },
+    ];
+
+    const result = applyPatches<Record<string, unknown>>(state, patches);
+    expect(result).toEqual({
+      list: [0, 10, 2, 3],
+      user: { nickname: 'a' },
+      other: { value: 1 },
+      name: 'a',
+    });
+    expect(result.other).toBe(state.other);
+    expect(state).toEqual({
+      list: [1, 2],
+      user: { name: 'a' },
+      other: { value: 1 },
+    });
+  });
+
+  it('Throws for patches that can not be applied', () => {
+    const state = { list: [1], value: 1 };
+    expect(() =>
+      applyPatches(state, [{ op: 'remove', path: '/missing' }]),
+    ).toThrow('Path "/missing" doesn\'t exist in the state.');
+    expect(() =>
+      applyPatches(state, [{ op: 'add', path: '/list/5', value: 1 }]),
+    ).toThrow('Invalid array index in path "/list/5".');
+    expect(() =>
+      applyPatches(state, [{ op: 'test', path: '/value', value: 2 }]),
+    ).toThrow('Test failed for the path "/value".');
+    expect(() =>
+      applyPatches(state, [{ op: 'replace', path: 'value', value: 2 }]),
+    ).toThrow('Invalid JSON Pointer "value".');
+    // Inherited properties aren't part of the state.
+    expect(() =>
+      applyPatches(state, [{ op: 'remove', path: '/toString' }]),
+    ).toThrow('Path "/toString" doesn\'t exist in the state.');
+    expect(() =>
+      applyPatches(state, [{ op: 'replace', path: '/constructor', value: 1 }]),
+    ).toThrow('Path "/constructor" doesn\'t exist in the state.');
+  });
+
+  it('Only compares own properties', () => {
+    expect(createPatches({ toString: 1 }, {}).patches).toEqual([
+      { op: 'remove', path: '/toString' },
+    ]);
+    expect(createPatches({}, { constructor: 5 }).patches).toEqual([
+      { op: 'add', path: '/constructor', value: 5 },
+    ]);
+  });
+
+  describe('store', () => {
+    interface TestTodos {
+      todos: { title: string; done: boolean }[];
+      filter: string;
+    }
+
+    const initialState: TestTodos = { todos: [], filter: 'all' };
+
+    const createTestStore = (onPatches?: jest.Mock) =>
+      createVanillaStore({
+        name: 'todos',
+        initialState,
+        onPatches,
+        actions: {
+          addTodo: (state, title: string) => ({
+            ...state,
+            todos: [...state.todos, { title, done: false }],
+          }),
+          toggle: (state, index: number) => ({
+            ...state,
+            todos: state.todos.map((todo, i) =>
+              i === index ? { ...todo, done: !todo.done } : todo,
+            ),
+          }),
+        },
+      });
+
+    it('Emits the patches of every update', () => {
+      const onPatches = jest.fn();
+      const { actions } = createTestStore(onPatches);
+
+      actions.addTodo('a');
+      actions.toggle(0);
+      expect(onPatches.mock.calls).toEqual([
+        [
+          [{ op: 'add', path: '/todos/0', value: { title: 'a', done: false } }],
+          [{ op: 'remove', path: '/todos/0' }],
+        ],
+        [
+          [{ op: 'replace', path: '/todos/0/done', value: true }],
+          [{ op: 'replace', path: '/todos/0/done', value: false }],
+        ],
+      ]);
+    });
+
+    it('Skips updates that do not change the state', () => {
+      const onPatches = jest.fn();
+      const { actions, onPatches: listen } = createTestStore();
+      const remove = listen(onPatches);
+
+      actions.toggle(5);
+      expect(onPatches).not.toHaveBeenCalled();
+
+      remove();
+      actions.addTodo('a');
+      expect(onPatches).not.toHaveBeenCalled();
+    });
+
+    it('Emits the patches of a batch once', () => {
+      const onPatches = jest.fn();
+      const { actions } = createTestStore(onPatches);
+
+      batch(() => {
+        actions.addTodo('a');
+        actions.toggle(0);
+      });
+      expect(onPatches.mock.calls).toEqual([
+        [
+          [{ op: 'add', path: '/todos/0', value: { title: 'a', done: true } }],
+          [{ op: 'remove', path: '/todos/0' }],
+        ],
+      ]);
+    });
+
+    it("Doesn't emit patches for transactions that are rolled back", () => {
+      const onPatches = jest.fn();
+      const { actions } = createTestStore(onPatches);
+
+      expect(() =>
+        transaction(() => {
+          actions.addTodo('a');
+          throw new Error('failed');
+        }),
+      ).toThrow('failed');
+      expect(onPatches).not.toHaveBeenCalled();
+
+      // Only the updates that were kept are emitted.
+      batch(() => {
+        actions.addTodo('b');
+        try {
+          transaction(() => {
+            actions.toggle(0);
+            throw new Error('failed');
+          });
+        } catch {
+          // Rolled back.
+        }
+      });
+      expect(onPatches.mock.calls).toEqual([
+        [
+          [{ op: 'add', path: '/todos/0', value: { title: 'b', done: false } }],
+          [{ op: 'remove', path: '/todos/0' }],
+        ],
+      ]);
+    });
+
+    it('Applies patches and notifies listeners', () => {
+      const source = createTestStore();
+      const target = createTestStore();
+      source.onPatches((patches) => target.applyPatches(patches));
+      const listener = jest.fn();
+      target.subscribe((store) => store.todos.todos, listener);
+
+      source.actions.addTodo('a');
+      source.actions.toggle(0);
+      expect(target.store.todos).toEqual(source.store.todos);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('Undoes updates using the inverse patches', () => {
+      const store = createTestStore();
+      const history: Patch[][] = [];
+      store.onPatches((_patches, inversePatches) => {
+        history.push(inversePatches);
+      });
+
+      store.actions.addTodo('a');
+      store.actions.addTodo('b');
+      store.actions.toggle(1);
+      const inverse = [...history].reverse();
+      inverse.forEach((patches) => store.applyPatches(patches));
+      expect(store.store.todos).toEqual(initialState);
+    });
+  });
+});
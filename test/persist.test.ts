@@ -0,0 +1,165 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  createLocalStorage,
+  createMemoryStorage,
+  createSessionStorage,
+  createStore,
+} from '../src/barebone';
+import type { PersistOptions, PersistedState } from '../src/barebone';
+import { createCounterStore, initialState, name } from './helpers';
+import type { TestCounter } from './helpers';
+
+describe('persist', () => {
+  const createTestStore = (persist: PersistOptions<TestCounter>) =>
+    createCounterStore({ persist });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('Saves the state to localStorage and restores it', () => {
+    const { actions, hasHydrated } = createTestStore({});
+    expect(hasHydrated()).toBe(true);
+
+    actions.setValue(5);
+    expect(JSON.parse(localStorage.getItem(name) as string)).toEqual({
+      state: { value: 5, isUpdating: false },
+      version: 0,
+    });
+
+    const { store } = createTestStore({});
+    expect(store.test.value).toBe(5);
+  });
+
+  it('Saves the state to sessionStorage', () => {
+    const { actions } = createTestStore({
+      key: 'counter',
+      storage: createSessionStorage(),
+    });
+    actions.setValue(3);
+
+    expect(sessionStorage.getItem('counter')).not.toBeNull();
+    expect(localStorage.getItem('counter')).toBeNull();
+  });
+
+  it('Only saves the included properties', () => {
+    const storage = createMemoryStorage();
+    const { actions } = createTestStore({ storage, include: ['value'] });
+
+    actions.setValue(5);
+    actions.setIsUpdating(true);
+    expect(storage.items.get(name)?.state).toEqual({ value: 5 });
+
+    // Properties that aren't saved keep their initial values.
+    const { store } = createTestStore({ storage, include: ['value'] });
+    expect(store.test).toEqual({ value: 5, isUpdating: false });
+  });
+
+  it('Does not save the excluded properties', () => {
+    const storage = createMemoryStorage();
+    const { actions } = createTestStore({ storage, exclude: ['isUpdating'] });
+
+    actions.setIsUpdating(true);
+    expect(storage.items.get(name)?.state).toEqual({ value: 0 });
+  });
+
+  it('Migrates states saved with an older version', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(name, { state: { count: 7 }, version: 1 });
+
+    const migrate = jest.fn((oldState) => ({
+      value: oldState.count,
+      isUpdating: false,
+    }));
+    const { store } = createTestStore({ storage, version: 2, migrate });
+
+    expect(migrate).toBeCalledWith({ count: 7 }, 1);
+    expect(store.test.value).toBe(7);
+    expect(storage.items.get(name)).toEqual({
+      state: { value: 7, isUpdating: false },
+      version: 2,
+    });
+  });
+
+  it('Ignores states with a different version without migrate', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(name, { state: { value: 7 }, version: 1 });
+
+    const { store } = createTestStore({ storage, version: 2 });
+    expect(store.test.value).toBe(0);
+  });
+
+  it('Throttles writes to the storage', () => {
+    jest.useFakeTimers();
+    const storage = createMemoryStorage();
+    const setItem = jest.spyOn(storage, 'setItem');
+    const { actions } = createTestStore({ storage, throttle: 100 });
+
+    actions.setValue(1);
+    actions.setValue(2);
+    actions.setValue(3);
+    expect(setItem).toBeCalledTimes(1);
+
+    jest.advanceTimersByTime(100);
+    expect(setItem).toBeCalledTimes(2);
+    expect(storage.items.get(name)?.state).toEqual({
+      value: 3,
+      isUpdating: false,
+    });
+  });
+
+  it('Hydrates from an async storage', async () => {
+    let resolveItem: (value: PersistedState) => void = () => {};
+    const storage = {
+      getItem: jest.fn(
+        () => new Promise<PersistedState>((resolve) => (resolveItem = resolve)),
+      ),
+      setItem: jest.fn(() => Promise.resolve()),
+      removeItem: jest.fn(() => Promise.resolve()),
+    };
+    const { store, useStore, useHydrated, hasHydrated } = createTestStore({
+      storage,
+    });
+
+    const { result } = renderHook(() => ({
+      hasHydrated: useHydrated(),
+      value: useStore((store) => store.test.value),
+    }));
+    expect(result.current).toEqual({ hasHydrated: false, value: 0 });
+    expect(hasHydrated()).toBe(false);
+
+    await act(async () => {
+      resolveItem({ state: { value: 9, isUpdating: false }, version: 0 });
+    });
+
+    await waitFor(() =>
+      expect(result.current).toEqual({ hasHydrated: true, value: 9 }),
+    );
+    expect(store.test.value).toBe(9);
+    // Restoring the state doesn't write it back to the storage.
+    expect(storage.setItem).not.toBeCalled();
+  });
+
+  it('Clears the saved state', async () => {
+    const { actions, clearPersistedState } = createTestStore({
+      storage: createLocalStorage(),
+    });
+    actions.setValue(1);
+
+    await clearPersistedState();
+    expect(localStorage.getItem(name)).toBeNull();
+  });
+
+  it('Is hydrated when persist is not enabled', () => {
+    const { hasHydrated } = createStore({
+      name,
+      initialState,
+    });
+    expect(hasHydrated()).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import { createStore, createVanillaStore } from '../src/barebone';
+
+describe('reactions', () => {
+  interface TestCounter {
+    count: number;
+    userId: number;
+    profile?: string;
+  }
+
+  const initialState: TestCounter = { count: 0, userId: 1 };
+
+  const createTestStore = () =>
+    createVanillaStore({
+      name: 'counter',
+      initialState,
+      actions: {
+        increment: (state) => ({ ...state, count: state.count + 1 }),
+        setCount: (state, count: number) => ({ ...state, count }),
+        setUserId: (state, userId: number) => ({ ...state, userId }),
+        setProfile: (state, profile: string) => ({ ...state, profile }),
+      },
+      asyncActions: {
+        fetchProfile: async (getState, userId: number) => ({
+          ...getState(),
+          profile: await Promise.resolve(`user ${userId}`),
+        }),
+      },
+    });
+
+  it('Runs the effect with the new and previous value', () => {
+    const { actions, watch } = createTestStore();
+    const effect = jest.fn();
+    watch((store) => store.counter.count, effect);
+
+    actions.increment();
+    actions.setUserId(2);
+    actions.increment();
+    expect(
+      effect.mock.calls.map(([value, previous]) => [value, previous]),
+    ).toEqual([
+      [1, 0],
+      [2, 1],
+    ]);
+  });
+
+  it('Passes the actions to the effect', async () => {
+    const { actions, watch, store } = createTestStore();
+    watch(
+      (store) => store.counter.userId,
+      (userId, _previousUserId, { asyncActions }) => {
+        asyncActions.fetchProfile(userId);
+      },
+      { immediate: true },
+    );
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(store.counter.profile).toBe('user 1');
+
+    actions.setUserId(2);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(store.counter.profile).toBe('user 2');
+  });
+
+  it('Calls the cleanup before the next run and when stopped', () => {
+    const { actions, watch } = createTestStore();
+    const cleanup = jest.fn();
+    const stop = watch(
+      (store) => store.counter.count,
+      (count) => () => cleanup(count),
+    );
+
+    actions.increment();
+    expect(cleanup).not.toHaveBeenCalled();
+    actions.increment();
+    expect(cleanup).toHaveBeenCalledWith(1);
+
+    stop();
+    expect(cleanup).toHaveBeenLastCalledWith(2);
+    actions.increment();
+    expect(cleanup).toHaveBeenCalledTimes(2);
+  });
+
+  it('Uses the equality function', () => {
+    const { actions, watch } = createTestStore();
+    const effect = jest.fn();
+    watch((store) => store.counter.count, effect, {
+      equalityFn: (value, previousValue) => value > 10 === previousValue > 10,
+    });
+
+    actions.setCount(5);
+    actions.setCount(11);
+    actions.setCount(20);
+    expect(effect).toHaveBeenCalledTimes(1);
+    expect(effect.mock.calls[0].slice(0, 2)).toEqual([11, 0]);
+  });
+
+  it('Allows effects to update the store', () => {
+    const { actions, watch, store } = createTestStore();
+    // Keeps the count at 10 or lower.
+    watch(
+      (store) => store.counter.count,
+      (count, _previousCount, { actions }) => {
+        if (count > 10) actions.setCount(10);
+      },
+    );
+
+    actions.setCount(15);
+    expect(store.counter.count).toBe(10);
+  });
+
+  it('Gives later listeners the latest value', () => {
+    const { actions, watch, subscribe, store } = createTestStore();
+    watch(
+      (store) => store.counter.count,
+      (count, _previousCount, { actions }) => actions.setUserId(count * 10),
+    );
+    const listener = jest.fn();
+    subscribe((store) => store.counter.userId, listener);
+
+    actions.setCount(1);
+    expect(store.counter.userId).toBe(10);
+    expect(listener.mock.calls).toEqual([[10, 1]]);
+  });
+
+  it('Stops infinite reaction loops', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { actions, watch, store } = createTestStore();
+    watch(
+      (store) => store.counter.count,
+      (_count, _previousCount, { actions }) => actions.increment(),
+      { name: 'loop' },
+    );
+
+    actions.increment();
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('Stopped the reaction "loop" after 100'),
+    );
+    expect(store.counter.count).toBe(101);
+
+    // Reactions keep working after a loop was stopped.
+    error.mockClear();
+    actions.setUserId(2);
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('Sets up the reactions from the options', () => {
+    const effect = jest.fn();
+    const { actions } = createStore({
+      name: 'counter',
+      initialState,
+      actions: {
+        increment: (state) => ({ ...state, count: state.count + 1 }),
+      },
+      computed: {
+        double: (state) => state.count * 2,
+      },
+      reactions: {
+        trackDouble: {
+          selector: (_store, computed) => computed.double,
+          effect,
+          immediate: true,
+        },
+      },
+    });
+    expect(effect).toHaveBeenCalledWith(0, 0, expect.anything());
+
+    actions.increment();
+    expect(effect).toHaveBeenLastCalledWith(
+      2,
+      0,
+      expect.objectContaining({ actions: expect.anything() }),
+    );
+  });
+});
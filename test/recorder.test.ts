@@ -0,0 +1,146 @@
+import { createVanillaStore, replay } from '../src/barebone';
+import type { ActionLog } from '../src/barebone';
+
+describe('action recorder', () => {
+  interface TestCounter {
+    value: number;
+  }
+
+  const initialState: TestCounter = { value: 0 };
+
+  const fetchValue = jest.fn(async (value: number) => value);
+
+  const createTestStore = (record = true) =>
+    createVanillaStore({
+      name: 'counter',
+      initialState,
+      record,
+      actions: {
+        increment: (state) => ({ value: state.value + 1 }),
+        add: (state, amount: number) => ({ value: state.value + amount }),
+      },
+      asyncActions: {
+        load: async (_getState, value: number) => ({
+          value: await fetchValue(value),
+        }),
+      },
+    });
+
+  const recordSession = async () => {
+    const store = createTestStore();
+    store.actions.increment();
+    store.actions.add(5);
+    await store.asyncActions.load(10);
+    store.actions.add(2);
+    return store;
+  };
+
+  beforeEach(() => {
+    fetchValue.mockClear();
+  });
+
+  it('Records every action with its payload and state hash', async () => {
+    const { getActionLog } = await recordSession();
+    const log = getActionLog();
+
+    expect(log).toMatchObject({
+      version: 1,
+      name: 'counter',
+      initialState,
+    });
+    expect(
+      log.actions.map(({ key, type, payload }) => [key, type, payload]),
+    ).toEqual([
+      ['increment', 'sync', []],
+      ['add', 'sync', [5]],
+      ['load', 'async', [10]],
+      ['add', 'sync', [2]],
+    ]);
+    expect(log.actions[2].result).toEqual({ value: 10 });
+    expect(log.actions[0].stateHash).toMatch(/^[0-9a-f]{8}$/);
+    expect(log.actions[0].timestamp).toEqual(expect.any(Number));
+  });
+
+  it("Doesn't record unless enabled", () => {
+    const { actions, getActionLog } = createTestStore(false);
+    actions.increment();
+    expect(getActionLog().actions).toEqual([]);
+  });
+
+  it('Exports and clears the log', async () => {
+    const store = await recordSession();
+    expect(JSON.parse(store.exportActionLog())).toEqual(store.getActionLog());
+
+    store.clearActionLog();
+    expect(store.getActionLog()).toMatchObject({
+      initialState: { value: 12 },
+      actions: [],
+    });
+  });
+
+  it('Replays a log on a new store without running async actions', async () => {
+    const log = (await recordSession()).exportActionLog();
+    fetchValue.mockClear();
+
+    const store = createTestStore(false);
+    store.actions.add(100);
+    const result = await replay(store, log);
+
+    expect(result).toEqual({ replayed: 4 });
+    expect(store.store.counter).toEqual({ value: 12 });
+    expect(fetchValue).not.toHaveBeenCalled();
+  });
+
+  it('Stops at the given action', async () => {
+    const log = (await recordSession()).getActionLog();
+    const store = createTestStore(false);
+
+    expect(await replay(store, log, { stopAt: 1 })).toEqual({ replayed: 2 });
+    expect(store.store.counter).toEqual({ value: 6 });
+  });
+
+  it('Flags the first action whose state differs from the log', async () => {
+    const log: ActionLog<TestCounter> = (await recordSession()).getActionLog();
+    const store = createVanillaStore({
+      name: 'counter',
+      initialState,
+      actions: {
+        increment: (state) => ({ value: state.value + 1 }),
+        // Behaves differently from the recorded store.
+        add: (state, amount: number) => ({ value: state.value + amount * 2 }),
+      },
+    });
+
+    const { replayed, mismatch } = await replay(store, log);
+    expect(replayed).toBe(2);
+    expect(mismatch).toMatchObject({ index: 1, action: log.actions[1] });
+    expect(mismatch?.stateHash).not.toBe(log.actions[1].stateHash);
+  });
+
+  it('Waits between actions based on the speed', async () => {
+    jest.useFakeTimers();
+    const log = (await recordSession()).getActionLog();
+    log.actions[1].timestamp = log.actions[0].timestamp + 1000;
+
+    const store = createTestStore(false);
+    const replaying = replay(store, log, { speed: 2, stopAt: 1 });
+    await Promise.resolve();
+    expect(store.store.counter).toEqual({ value: 1 });
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(await replaying).toEqual({ replayed: 2 });
+    expect(store.store.counter).toEqual({ value: 6 });
+    jest.useRealTimers();
+  });
+
+  it('Throws when the log is from another store', async () => {
+    const log = (await recordSession()).getActionLog();
+    const store = createVanillaStore({
+      name: 'other',
+      initialState,
+    });
+    await expect(replay(store, log)).rejects.toThrow(
+      'The log was recorded from the store "counter", not "other".',
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { StoreRegistry, createStore, storeRegistry } from '../src/barebone';
+
+describe('StoreRegistry', () => {
+  const initialState = { value: 0 };
+  const actions = {
+    setValue: (state: typeof initialState, value: number) => ({
+      ...state,
+      value,
+    }),
+  };
+
+  afterEach(() => {
+    storeRegistry.clear();
+    jest.restoreAllMocks();
+  });
+
+  it("Doesn't add stores to a registry by default", () => {
+    createStore({ name: 'counter', initialState });
+    expect(storeRegistry.getStores()).toEqual([]);
+  });
+
+  it('Adds stores to the global registry', () => {
+    const counter = createStore({
+      name: 'counter',
+      initialState,
+      actions,
+      registry: true,
+    });
+    const user = createStore({
+      name: 'user',
+      initialState: { name: '' },
+      registry: true,
+    });
+
+    expect(storeRegistry.get('counter')).toBe(counter.stateStore);
+    expect(storeRegistry.getStores()).toEqual([
+      counter.stateStore,
+      user.stateStore,
+    ]);
+  });
+
+  it('Adds stores to the registry passed in the options', () => {
+    const registry = new StoreRegistry();
+    const { stateStore } = createStore({
+      name: 'counter',
+      initialState,
+      registry,
+    });
+
+    expect(registry.get('counter')).toBe(stateStore);
+    expect(storeRegistry.get('counter')).toBeUndefined();
+  });
+
+  it('Warns about stores with the same name', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    createStore({ name: 'counter', initialState, registry: true });
+    const { stateStore } = createStore({
+      name: 'counter',
+      initialState,
+      registry: true,
+    });
+
+    expect(warn).toBeCalledWith(expect.stringContaining('"counter"'));
+    expect(storeRegistry.get('counter')).toBe(stateStore);
+  });
+
+  it('Throws on stores with the same name when configured to', () => {
+    const registry = new StoreRegistry({ onDuplicate: 'throw' });
+    createStore({ name: 'counter', initialState, registry });
+
+    expect(() =>
+      createStore({ name: 'counter', initialState, registry }),
+    ).toThrow('A store named "counter" already exists.');
+  });
+
+  it('Resets every store to its initial state', () => {
+    const registry = new StoreRegistry();
+    const counter = createStore({
+      name: 'counter',
+      initialState,
+      actions,
+      registry,
+    });
+    const other = createStore({
+      name: 'other',
+      initialState,
+      actions,
+      registry,
+    });
+
+    counter.actions.setValue(5);
+    other.actions.setValue(10);
+    registry.resetAll();
+
+    expect(counter.store.counter.value).toBe(0);
+    expect(other.store.other.value).toBe(0);
+  });
+
+  it('Removes stores from the registry', () => {
+    const registry = new StoreRegistry();
+    const { stateStore } = createStore({
+      name: 'counter',
+      initialState,
+      registry,
+    });
+
+    registry.unregister(stateStore);
+    expect(registry.getStores()).toEqual([]);
+  });
+
+  it('Removes a store using its unregister function', () => {
+    const registry = new StoreRegistry();
+    const warn = jest.spyOn(console, 'warn');
+    const first = createStore({ name: 'counter', initialState, registry });
+
+    first.unregister();
+    expect(registry.get('counter')).toBeUndefined();
+
+    // A store with the same name can be created again, e.g. when
+    // hot reloading.
+    const second = createStore({ name: 'counter', initialState, registry });
+    expect(warn).not.toHaveBeenCalled();
+
+    // Doesn't remove a newer store with the same name.
+    first.unregister();
+    expect(registry.get('counter')).toBe(second.stateStore);
+
+    // Does nothing for stores without a registry.
+    createStore({ name: 'other', initialState }).unregister();
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  createLoopbackServer,
+  createVanillaStore,
+  transaction,
+} from '../src/barebone';
+import type { RemoteTransport } from '../src/barebone';
+
+interface Todo {
+  title: string;
+  done: boolean;
+}
+
+const initialState = { todos: [] as Todo[] };
+
+const createTodoStore = (transport: RemoteTransport<typeof initialState>) =>
+  createVanillaStore({
+    name: 'todos',
+    initialState,
+    remote: { transport },
+    actions: {
+      addTodo: (state, title: string) => ({
+        ...state,
+        todos: [...state.todos, { title, done: false }],
+      }),
+      toggle: (state, index: number) => ({
+        ...state,
+        todos: state.todos.map((todo, i) =>
+          i === index ? { ...todo, done: !todo.done } : todo,
+        ),
+      }),
+      removeTodo: (state, index: number) => ({
+        ...state,
+        todos: state.todos.filter((_, i) => i !== index),
+      }),
+    },
+  });
+
+describe('Remote sync', () => {
+  it('Adopts the state of the server when connecting', async () => {
+    const server = createLoopbackServer({
+      todos: [{ title: 'server', done: false }],
+    });
+    const { stateStore } = createTodoStore(server.createTransport());
+    expect(stateStore.getState().todos).toEqual([]);
+
+    await server.flush();
+    expect(stateStore.getState().todos).toEqual([
+      { title: 'server', done: false },
+    ]);
+  });
+
+  it('Sends updates to the server and other stores', async () => {
+    const server = createLoopbackServer(initialState);
+    const first = createTodoStore(server.createTransport());
+    const second = createTodoStore(server.createTransport());
+    await server.flush();
+
+    first.actions.addTodo('a');
+    expect(first.stateStore.getState().todos).toEqual([
+      { title: 'a', done: false },
+    ]);
+
+    await server.flush();
+    expect(server.getState().todos).toEqual([{ title: 'a', done: false }]);
+    expect(second.stateStore.getState()).toEqual(server.getState());
+
+    second.actions.toggle(0);
+    await server.flush();
+    expect(first.stateStore.getState().todos).toEqual([
+      { title: 'a', done: true },
+    ]);
+  });
+
+  it('Receives states set on the server', async () => {
+    const server = createLoopbackServer(initialState);
+    const { stateStore } = createTodoStore(server.createTransport());
+    await server.flush();
+
+    server.setState({ todos: [{ title: 'b', done: true }] });
+    await server.flush();
+    expect(stateStore.getState().todos).toEqual([{ title: 'b', done: true }]);
+  });
+
+  it('Queues updates while offline and sends them on reconnect', async () => {
+    const server = createLoopbackServer(initialState);
+    const transport = server.createTransport();
+    const { actions, stateStore } = createTodoStore(transport);
+    await server.flush();
+
+    transport.disconnect();
+    actions.addTodo('a');
+    actions.addTodo('b');
+    await server.flush();
+    expect(server.getState().todos).toEqual([]);
+    expect(stateStore.getState().todos).toHaveLength(2);
+
+    transport.reconnect();
+    await server.flush();
+    expect(server.getState().todos).toEqual([
+      { title: 'a', done: false },
+      { title: 'b', done: false },
+    ]);
+    expect(stateStore.getState()).toEqual(server.getState());
+  });
+
+  it('Rebases offline updates onto the state of the server', async () => {
+    const server = createLoopbackServer({
+      todos: [{ title: 'a', done: false }],
+    });
+    const transport = server.createTransport();
+    const offline = createTodoStore(transport);
+    const online = createTodoStore(server.createTransport());
+    await server.flush();
+
+    transport.disconnect();
+    offline.actions.toggle(0);
+    online.actions.addTodo('b');
+    await server.flush();
+
+    transport.reconnect();
+    await server.flush();
+    const expected = [
+      { title: 'a', done: true },
+      { title: 'b', done: false },
+    ];
+    expect(server.getState().todos).toEqual(expected);
+    expect(offline.stateStore.getState().todos).toEqual(expected);
+    expect(online.stateStore.getState().todos).toEqual(expected);
+  });
+
+  it('Drops updates that conflict with the state of the server', async () => {
+    const server = createLoopbackServer({
+      todos: [{ title: 'a', done: false }],
+    });
+    const transport = server.createTransport();
+    const offline = createTodoStore(transport);
+    const online = createTodoStore(server.createTransport());
+    await server.flush();
+
+    transport.disconnect();
+    offline.actions.toggle(0);
+    online.actions.removeTodo(0);
+    await server.flush();
+
+    transport.reconnect();
+    await server.flush();
+    expect(server.getState().todos).toEqual([]);
+    expect(offline.stateStore.getState().todos).toEqual([]);
+
+    // Later updates are still synced.
+    offline.actions.addTodo('c');
+    await server.flush();
+    expect(online.stateStore.getState().todos).toEqual([
+      { title: 'c', done: false },
+    ]);
+  });
+
+  it("Doesn't send updates rolled back by a transaction", async () => {
+    const server = createLoopbackServer(initialState);
+    const { actions, stateStore } = createTodoStore(server.createTransport());
+    await server.flush();
+
+    expect(() =>
+      transaction(() => {
+        actions.addTodo('a');
+        throw new Error('failed');
+      }),
+    ).toThrow('failed');
+    actions.addTodo('b');
+    await server.flush();
+
+    expect(server.getState().todos).toEqual([{ title: 'b', done: false }]);
+    expect(stateStore.getState()).toEqual(server.getState());
+  });
+
+  it('Sends updates made in response to the state of the server', async () => {
+    const server = createLoopbackServer({ count: 0, doubled: 0 });
+    const { stateStore, watch } = createVanillaStore({
+      name: 'counter',
+      initialState: { count: 0, doubled: 0 },
+      remote: { transport: server.createTransport() },
+      actions: {
+        setDoubled: (state, doubled: number) => ({ ...state, doubled }),
+      },
+    });
+    watch(
+      (store) => store.counter.count,
+      (count, _previousCount, { actions }) => actions.setDoubled(count * 2),
+    );
+    await server.flush();
+
+    server.setState({ count: 5, doubled: 0 });
+    await server.flush();
+    expect(stateStore.getState()).toEqual({ count: 5, doubled: 10 });
+    expect(server.getState()).toEqual({ count: 5, doubled: 10 });
+  });
+
+  it("Doesn't apply an operation twice when it's sent again", async () => {
+    const server = createLoopbackServer(initialState);
+    const transport = server.createTransport();
+    const { actions, stateStore } = createTodoStore(transport);
+    await server.flush();
+
+    actions.addTodo('a');
+    transport.disconnect();
+    transport.reconnect();
+    await server.flush();
+    expect(server.getState().todos).toEqual([{ title: 'a', done: false }]);
+    expect(stateStore.getState()).toEqual(server.getState());
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { createSelector, createStore } from '../src/barebone';
+
+describe('selectors', () => {
+  interface Todo {
+    id: number;
+    label: string;
+    done: boolean;
+  }
+
+  interface Todos {
+    items: Todo[];
+    filter: 'all' | 'done';
+    isUpdating: boolean;
+  }
+
+  const initialState: Todos = {
+    items: [
+      { id: 1, label: 'b', done: true },
+      { id: 2, label: 'a', done: false },
+    ],
+    filter: 'all',
+    isUpdating: false,
+  };
+  const name = 'todos';
+
+  describe('createSelector()', () => {
+    it('Only recalculates when the input results change', () => {
+      const combiner = jest.fn((items: Todo[], filter: Todos['filter']) =>
+        items.filter((item) => filter === 'all' || item.done),
+      );
+      const selectVisible = createSelector(
+        [(state: Todos) => state.items, (state: Todos) => state.filter],
+        combiner,
+      );
+
+      const result = selectVisible(initialState);
+      expect(result).toHaveLength(2);
+      expect(selectVisible({ ...initialState, isUpdating: true })).toBe(result);
+      expect(combiner).toBeCalledTimes(1);
+
+      expect(selectVisible({ ...initialState, filter: 'done' })).toHaveLength(
+        1,
+      );
+      expect(combiner).toBeCalledTimes(2);
+    });
+  });
+
+  describe('computed', () => {
+    const createTestStore = () => {
+      const sortItems = jest.fn((items: Todo[]) =>
+        [...items].sort((a, b) => a.label.localeCompare(b.label)),
+      );
+      const countItems = jest.fn((state: Todos) => state.items.length);
+      const selectSorted = createSelector(
+        [(state: Todos) => state.items],
+        sortItems,
+      );
+
+      const store = createStore({
+        name,
+        initialState,
+        actions: {
+          setIsUpdating: (state, isUpdating: boolean) => ({
+            ...state,
+            isUpdating,
+          }),
+          addItem: (state, item: Todo) => ({
+            ...state,
+            items: [...state.items, item],
+          }),
+          // Uses the same memoized selector as `computed`.
+          completeFirstSorted: (state) => {
+            const [first] = selectSorted(state);
+            return {
+              ...state,
+              items: state.items.map((item) =>
+                item.id === first.id ? { ...item, done: true } : item,
+              ),
+            };
+          },
+        },
+        computed: {
+          sorted: selectSorted,
+          total: countItems,
+        },
+      });
+      return { ...store, sortItems, countItems };
+    };
+
+    it('Makes computed values available outside of components', () => {
+      const { computed, actions } = createTestStore();
+
+      expect(computed.total).toBe(2);
+      expect(computed.sorted.map((item) => item.label)).toEqual(['a', 'b']);
+
+      actions.addItem({ id: 3, label: 'c', done: false });
+      expect(computed.total).toBe(3);
+    });
+
+    it('Only recalculates when the inputs change', () => {
+      const { computed, actions, sortItems, countItems } = createTestStore();
+
+      const sorted = computed.sorted;
+      computed.sorted;
+      computed.total;
+      computed.total;
+      expect(sortItems).toBeCalledTimes(1);
+      expect(countItems).toBeCalledTimes(1);
+
+      actions.setIsUpdating(true);
+      expect(computed.sorted).toBe(sorted);
+      expect(sortItems).toBeCalledTimes(1);
+      // Plain selectors are recalculated when the state changes.
+      computed.total;
+      expect(countItems).toBeCalledTimes(2);
+    });
+
+    it('Shares the memoized result with actions', () => {
+      const { computed, actions, store, sortItems } = createTestStore();
+
+      computed.sorted;
+      actions.completeFirstSorted();
+
+      expect(sortItems).toBeCalledTimes(1);
+      expect(store.todos.items.find((item) => item.id === 2)?.done).toBe(true);
+    });
+
+    it('Shares computed values between components', () => {
+      const { useStore, actions, sortItems } = createTestStore();
+
+      const hooks = [1, 2, 3].map(() =>
+        renderHook(() => useStore((_, computed) => computed.sorted)),
+      );
+      expect(sortItems).toBeCalledTimes(1);
+
+      // Updates that don't change the items don't recalculate or rerender.
+      act(() => actions.setIsUpdating(true));
+      expect(sortItems).toBeCalledTimes(1);
+
+      act(() => actions.addItem({ id: 3, label: '0', done: false }));
+      expect(sortItems).toBeCalledTimes(2);
+      hooks.forEach(({ result }) => {
+        expect(result.current[0].label).toBe('0');
+      });
+    });
+  });
+});
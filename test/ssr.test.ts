@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+import { createElement, type ReactNode } from 'react';
+import { renderToString } from 'react-dom/server';
+import {
+  StoreRegistry,
+  createStore,
+  createStoreCollector,
+  serializeState,
+} from '../src/barebone';
+
+describe('server-side rendering', () => {
+  interface TestCounter {
+    value: number;
+    label: string;
+  }
+
+  const initialState: TestCounter = { value: 0, label: '' };
+
+  const createTestStores = () => {
+    const registry = new StoreRegistry();
+    const counter = createStore({
+      name: 'counter',
+      initialState,
+      registry,
+      actions: {
+        set: (_state, value: number, label: string) => ({ value, label }),
+      },
+    });
+    const other = createStore({ name: 'other', initialState, registry });
+    const unused = createStore({ name: 'unused', initialState, registry });
+
+    const App = () => {
+      const counterValue = counter.useStore((store) => store.counter);
+      const otherValue = other.useStore((store) => store.other.value);
+      return createElement(
+        'p',
+        null,
+        `${counterValue.label}:${counterValue.value}:${otherValue}`,
+      );
+    };
+    return { registry, counter, other, unused, App };
+  };
+
+  const renderOnServer = (app: ReactNode) => {
+    const collector = createStoreCollector();
+    const html = renderToString(createElement(collector.Provider, null, app));
+    return { collector, html };
+  };
+
+  it('Collects the state of every store used while rendering', () => {
+    const { App, counter } = createTestStores();
+    counter.actions.set(1, 'a');
+
+    const { collector, html } = renderOnServer(createElement(App));
+    expect(html).toBe('<p>a:1:0</p>');
+    expect(collector.getState()).toEqual({
+      counter: { value: 1, label: 'a' },
+      other: initialState,
+    });
+  });
+
+  it('Escapes the state in the script', () => {
+    const { App, counter } = createTestStores();
+    counter.actions.set(1, '</script><script>alert("&")</script>\u2028');
+
+    const { collector } = renderOnServer(createElement(App));
+    const script = collector.getScript({ nonce: 'a"b' });
+    expect(script).toBe(
+      '<script nonce="a&#34;b">window["__BAREBONE_STATE__"]=' +
+        '{"counter":{"value":1,"label":"\\u003c/script\\u003e\\u003cscript' +
+        '\\u003ealert(\\"\\u0026\\")\\u003c/script\\u003e\\u2028"},' +
+        '"other":{"value":0,"label":""}};</script>',
+    );
+    expect(script.match(/<\/script>/g)).toHaveLength(1);
+  });
+
+  it('Serializes states that can be parsed back', () => {
+    const state = { text: '<b>&</b>\u2028\u2029', list: [1, null] };
+    expect(JSON.parse(serializeState(state))).toEqual(state);
+    expect(serializeState(undefined)).toBe('null');
+  });
+});
@@ -0,0 +1,126 @@
+import { StateStore } from '../src/barebone/state-store';
+
+describe('StateStore', () => {
+  describe('updateState()', () => {
+    it('Stores values that are not JSON serialisable', () => {
+      class Point {
+        constructor(
+          public x: number,
+          public y: number,
+        ) {}
+      }
+      const state = {
+        date: new Date(0),
+        map: new Map([['a', 1]]),
+        set: new Set([1, 2]),
+        point: new Point(1, 2),
+        empty: undefined as undefined | number,
+      };
+      const stateStore = new StateStore('test', state);
+
+      const newState = { ...state, map: new Map([['b', 2]]) };
+      stateStore.updateState(newState);
+
+      const result = stateStore.getState();
+      expect(result.date).toBe(state.date);
+      expect(result.set).toBe(state.set);
+      expect(result.point).toBeInstanceOf(Point);
+      expect(result.map.get('b')).toBe(2);
+      expect('empty' in result).toBe(true);
+    });
+
+    it('Stores circular data', () => {
+      interface Node {
+        value: number;
+        parent?: Node;
+        children: Node[];
+      }
+      const root: Node = { value: 0, children: [] };
+      root.children.push({ value: 1, parent: root, children: [] });
+      const stateStore = new StateStore('test', { root });
+
+      const listener = jest.fn();
+      stateStore.subscribe(listener);
+
+      const newRoot: Node = { value: 0, children: [] };
+      newRoot.children.push({ value: 2, parent: newRoot, children: [] });
+      stateStore.updateState({ root: newRoot });
+
+      expect(listener).toBeCalledTimes(1);
+      expect(stateStore.getState().root.children[0].value).toBe(2);
+    });
+
+    it('Keeps the identity of unchanged parts of the state', () => {
+      const state = {
+        user: { name: 'user', tags: ['a', 'b'] },
+        todos: [
+          { id: 1, done: false },
+          { id: 2, done: false },
+        ],
+      };
+      const stateStore = new StateStore('test', state);
+
+      // Returns a deep copy where only the second todo has changed.
+      const newState = JSON.parse(JSON.stringify(state));
+      newState.todos[1].done = true;
+      stateStore.updateState(newState);
+
+      const result = stateStore.getState();
+      expect(result.user).toBe(state.user);
+      expect(result.todos[0]).toBe(state.todos[0]);
+      expect(result.todos[1]).not.toBe(state.todos[1]);
+      expect(result.todos[1].done).toBe(true);
+
+      // A deeply equal state keeps the old state.
+      stateStore.updateState(JSON.parse(JSON.stringify(result)));
+      expect(stateStore.getState()).toBe(result);
+    });
+
+    it('Passes the store to listeners by reference', () => {
+      const stateStore = new StateStore('test', { value: 0 });
+      const listener = jest.fn();
+      stateStore.subscribe(listener, () => true);
+
+      stateStore.updateState({ value: 1 });
+      expect(listener.mock.calls[0][0]).toBe(stateStore.getSnapshot());
+    });
+
+    it('Handles thousands of listeners on a large state tree', () => {
+      const itemCount = 10000;
+      const listenerCount = 5000;
+      const items = Array.from({ length: itemCount }, (_, id) => ({
+        id,
+        label: `item ${id}`,
+        meta: { createdAt: new Date(id), tags: ['a', 'b'] },
+      }));
+      const stateStore = new StateStore('test', { items });
+
+      // Every listener watches a single item.
+      const listeners = Array.from({ length: listenerCount }, (_, i) => {
+        const listener = jest.fn();
+        stateStore.subscribe(
+          listener,
+          (newStore, oldStore) =>
+            newStore.test.items[i] !== oldStore.test.items[i],
+        );
+        return listener;
+      });
+
+      const start = performance.now();
+      for (let i = 0; i < 20; i++) {
+        const newItems = [...stateStore.getState().items];
+        newItems[i] = { ...newItems[i], label: `updated ${i}` };
+        stateStore.updateState({ items: newItems });
+      }
+      const duration = performance.now() - start;
+
+      listeners.forEach((listener, i) => {
+        expect(listener).toBeCalledTimes(i < 20 ? 1 : 0);
+      });
+      expect(stateStore.getState().items[100]).toBe(items[100]);
+      // Generous upper bound, a full serialise/parse per listener
+      // would take orders of magnitude longer.
+      expect(duration).toBeLessThan(2000);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement, type ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { createStoreContext, storeRegistry } from '../src/barebone';
+
+describe('createStoreContext', () => {
+  interface TestCounter {
+    value: number;
+  }
+
+  const initialState: TestCounter = { value: 0 };
+
+  const { Provider, useStore, useActions, useStoreInstance } =
+    createStoreContext({
+      name: 'counter',
+      initialState,
+      actions: {
+        increment: (state) => ({ value: state.value + 1 }),
+      },
+      asyncActions: {
+        setValueAsync: async (getState, value: number) => ({
+          ...getState(),
+          value,
+        }),
+      },
+    });
+
+  const useCounter = () => ({
+    value: useStore((store) => store.counter.value),
+    ...useActions(),
+  });
+
+  const createWrapper =
+    (state?: TestCounter) =>
+    ({ children }: { children: ReactNode }) =>
+      createElement(Provider, { initialState: state }, children);
+
+  it('Creates a separate instance for each Provider', () => {
+    const first = renderHook(useCounter, { wrapper: createWrapper() });
+    const second = renderHook(useCounter, { wrapper: createWrapper() });
+
+    act(() => first.result.current.actions.increment());
+    expect(first.result.current.value).toBe(1);
+    expect(second.result.current.value).toBe(0);
+    expect(storeRegistry.get('counter')).toBeUndefined();
+  });
+
+  it('Keeps the instance across renders', () => {
+    const { result, rerender } = renderHook(useCounter, {
+      wrapper: createWrapper(),
+    });
+
+    act(() => result.current.actions.increment());
+    rerender();
+    expect(result.current.value).toBe(1);
+  });
+
+  it('Uses the initial state passed to the Provider', async () => {
+    const { result } = renderHook(useCounter, {
+      wrapper: createWrapper({ value: 10 }),
+    });
+    expect(result.current.value).toBe(10);
+
+    await act(() => result.current.asyncActions.setValueAsync(20));
+    expect(result.current.value).toBe(20);
+  });
+
+  it('Hydrates the instance with the state from the server', () => {
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(Provider, { serverState: { value: 5 } }, children);
+    const { result } = renderHook(
+      () => ({ ...useCounter(), instance: useStoreInstance() }),
+      { wrapper },
+    );
+    expect(result.current.value).toBe(5);
+
+    act(() => result.current.actions.increment());
+    expect(result.current.value).toBe(6);
+    const { stateStore } = result.current.instance;
+    expect(stateStore.getServerSnapshot().counter).toEqual({ value: 5 });
+  });
+
+  it('Uses the nearest Provider', () => {
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(
+        Provider,
+        { initialState: { value: 1 } },
+        createElement(Provider, { initialState: { value: 2 } }, children),
+      );
+    const { result } = renderHook(
+      () => ({ ...useCounter(), instance: useStoreInstance() }),
+      { wrapper },
+    );
+
+    expect(result.current.value).toBe(2);
+    act(() => result.current.actions.increment());
+    expect(result.current.instance.store.counter.value).toBe(3);
+  });
+
+  it('Throws when there is no Provider', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(useCounter)).toThrow(
+      'No Provider found for the store "counter"',
+    );
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  batch,
+  createStore,
+  createVanillaStore,
+  toObservable,
+  toReadable,
+} from '../src/barebone';
+
+describe('subscribe', () => {
+  interface TestCounter {
+    value: number;
+    label: string;
+  }
+
+  const initialState: TestCounter = { value: 0, label: '' };
+
+  const createTestStore = () =>
+    createVanillaStore({
+      name: 'counter',
+      initialState,
+      actions: {
+        increment: (state) => ({ ...state, value: state.value + 1 }),
+        setLabel: (state, label: string) => ({ ...state, label }),
+      },
+      computed: {
+        double: (state) => state.value * 2,
+      },
+    });
+
+  it('Calls the listener with the selected value and the previous value', () => {
+    const { actions, subscribe } = createTestStore();
+    const listener = jest.fn();
+    subscribe((store) => store.counter.value, listener);
+
+    actions.increment();
+    actions.increment();
+    expect(listener.mock.calls).toEqual([
+      [1, 0],
+      [2, 1],
+    ]);
+  });
+
+  it("Doesn't call the listener when the selected value is unchanged", () => {
+    const { actions, subscribe } = createTestStore();
+    const listener = jest.fn();
+    subscribe((store) => store.counter.value, listener);
+
+    actions.setLabel('label');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('Uses the equality function and computed values', () => {
+    const { actions, subscribe } = createTestStore();
+    const listener = jest.fn();
+    subscribe((_store, computed) => ({ double: computed.double }), listener, {
+      equalityFn: (value, previousValue) =>
+        value.double === previousValue.double,
+    });
+
+    actions.setLabel('label');
+    actions.increment();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ double: 2 }, { double: 0 });
+  });
+
+  it('Calls the listener straight away with fireImmediately', () => {
+    const { subscribe } = createTestStore();
+    const listener = jest.fn();
+    subscribe((store) => store.counter.value, listener, {
+      fireImmediately: true,
+    });
+    expect(listener).toHaveBeenCalledWith(0, 0);
+  });
+
+  it('Subscribes the same listener more than once', () => {
+    const { actions, subscribe } = createTestStore();
+    const listener = jest.fn();
+    const unsubscribe = subscribe((store) => store.counter.value, listener);
+    subscribe((store) => store.counter.value, listener);
+
+    actions.increment();
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    actions.increment();
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('Calls the listener once after a batch', () => {
+    const { actions, subscribe } = createTestStore();
+    const listener = jest.fn();
+    subscribe((store) => store.counter.value, listener);
+
+    batch(() => {
+      actions.increment();
+      actions.increment();
+    });
+    expect(listener.mock.calls).toEqual([[2, 0]]);
+  });
+
+  it('Is available on stores created with createStore', () => {
+    const { actions, subscribe } = createStore({
+      name: 'counter',
+      initialState,
+      actions: { increment: (state) => ({ ...state, value: state.value + 1 }) },
+    });
+    const listener = jest.fn();
+    subscribe((store) => store.counter.value, listener);
+
+    actions.increment();
+    expect(listener).toHaveBeenCalledWith(1, 0);
+  });
+
+  it('Loads the vanilla entry point without React', () => {
+    jest.isolateModules(() => {
+      jest.doMock('react', () => {
+        throw new Error('React was loaded.');
+      });
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const core = require('../src/barebone/core');
+      expect(core.createVanillaStore).toBeDefined();
+    });
+    jest.dontMock('react');
+  });
+
+  describe('toReadable', () => {
+    it('Follows the Svelte store contract', () => {
+      const store = createTestStore();
+      const readable = toReadable(store, (s) => s.counter.value);
+      const run = jest.fn();
+
+      const unsubscribe = readable.subscribe(run);
+      expect(run).toHaveBeenCalledWith(0);
+
+      store.actions.increment();
+      expect(run).toHaveBeenLastCalledWith(1);
+
+      unsubscribe();
+      store.actions.increment();
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('Defaults to the whole store', () => {
+      const store = createTestStore();
+      const run = jest.fn();
+      toReadable(store).subscribe(run);
+      expect(run).toHaveBeenCalledWith({ counter: initialState });
+    });
+  });
+
+  describe('toObservable', () => {
+    it('Emits the current value and every change', () => {
+      const store = createTestStore();
+      const observable = toObservable(store, (s) => s.counter.value);
+      const next = jest.fn();
+
+      const subscription = observable.subscribe({ next });
+      store.actions.increment();
+      subscription.unsubscribe();
+      store.actions.increment();
+      expect(next.mock.calls).toEqual([[0], [1]]);
+    });
+
+    it('Implements the observable interop', () => {
+      const observable = toObservable(createTestStore());
+      const key = (Symbol as { observable?: symbol }).observable;
+      const interop = (observable as unknown as Record<string, () => unknown>)[
+        (key ?? '@@observable') as string
+      ];
+      expect(interop()).toBe(observable);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import type { SyncMessage, SyncOptions } from '../src/barebone';
+import { createCounterStore } from './helpers';
+import type { TestCounter } from './helpers';
+
+/**
+ * Stand-in for BroadcastChannel, messages are delivered straight
+ * away to every other channel with the same name.
+ */
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data: JSON.parse(JSON.stringify(data)) });
+      }
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(
+      (channel) => channel !== this,
+    );
+  }
+}
+
+describe('sync', () => {
+  const originalBroadcastChannel = global.BroadcastChannel;
+
+  const setBroadcastChannel = (value: unknown) =>
+    Object.defineProperty(global, 'BroadcastChannel', {
+      value,
+      configurable: true,
+      writable: true,
+    });
+
+  // Each store acts as a separate tab.
+  const createTab = (sync: Partial<SyncOptions<TestCounter>> = {}) =>
+    createCounterStore({
+      sync: { channel: 'counter', ...sync },
+    });
+
+  beforeEach(() => {
+    FakeBroadcastChannel.channels = [];
+    setBroadcastChannel(FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    setBroadcastChannel(originalBroadcastChannel);
+    jest.restoreAllMocks();
+  });
+
+  it('Sends updates to other tabs', () => {
+    const tab1 = createTab();
+    const tab2 = createTab();
+
+    tab1.actions.setValue(5);
+    expect(tab2.store.test.value).toBe(5);
+
+    tab2.actions.setValue(10);
+    expect(tab1.store.test.value).toBe(10);
+  });
+
+  it('Sends updates made in the same millisecond as a received update', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const tab1 = createTab();
+    const tab2 = createTab();
+
+    tab1.actions.setValue(5);
+    tab2.actions.setValue(10);
+    expect(tab1.store.test.value).toBe(10);
+
+    tab1.actions.setValue(15);
+    expect(tab2.store.test.value).toBe(15);
+  });
+
+  it('Does not send received updates back', () => {
+    createTab();
+    const tab2 = createTab();
+    const [channel1] = FakeBroadcastChannel.channels;
+    const postMessage = jest.spyOn(channel1, 'postMessage');
+
+    tab2.actions.setValue(5);
+    expect(postMessage).not.toBeCalled();
+  });
+
+  it('Sends updates made in response to received updates', () => {
+    const tab1 = createTab();
+    const tab2 = createTab();
+    tab2.watch(
+      (store) => store.test.value,
+      (value, _previousValue, { actions }) => actions.setIsUpdating(value > 3),
+    );
+
+    tab1.actions.setValue(5);
+    expect(tab2.store.test).toEqual({ value: 5, isUpdating: true });
+    expect(tab1.store.test).toEqual({ value: 5, isUpdating: true });
+  });
+
+  it('Only syncs the included properties', () => {
+    const tab1 = createTab({ include: ['value'] });
+    const tab2 = createTab({ include: ['value'] });
+
+    tab1.actions.setIsUpdating(true);
+    tab1.actions.setValue(5);
+    expect(tab2.store.test).toEqual({ value: 5, isUpdating: false });
+  });
+
+  it('Ignores updates older than the local state', () => {
+    const tab1 = createTab();
+    const tab2 = createTab();
+    const [, channel2] = FakeBroadcastChannel.channels;
+
+    jest.spyOn(Date, 'now').mockReturnValue(2000);
+    tab2.actions.setValue(5);
+
+    // An update from tab 1 that happened before tab 2's update.
+    const message: SyncMessage = {
+      state: { value: 1, isUpdating: false },
+      timestamp: 1000,
+      sender: 'other tab',
+    };
+    channel2.onmessage?.({ data: message });
+    expect(tab2.store.test.value).toBe(5);
+
+    channel2.onmessage?.({ data: { ...message, timestamp: 3000 } });
+    expect(tab2.store.test.value).toBe(1);
+    expect(tab1.store.test.value).toBe(5);
+  });
+
+  it('Resolves conflicts with a custom function', () => {
+    const conflict = jest.fn((localState: TestCounter, remoteState) => ({
+      ...remoteState,
+      value: Math.max(localState.value, remoteState.value),
+    }));
+    const tab1 = createTab({ conflict });
+    const tab2 = createTab({ conflict });
+
+    tab1.actions.setValue(5);
+    expect(tab2.store.test.value).toBe(5);
+
+    tab1.actions.setValue(2);
+    expect(tab2.store.test.value).toBe(5);
+    expect(conflict).toHaveBeenLastCalledWith(
+      { value: 5, isUpdating: false },
+      { value: 2, isUpdating: false },
+      expect.objectContaining({ remoteTimestamp: expect.any(Number) }),
+    );
+  });
+});
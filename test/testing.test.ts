@@ -0,0 +1,120 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { createStore, StoreRegistry } from '../src/barebone';
+import {
+  countRenders,
+  resetAllStores,
+  setStoreState,
+  spyOnActions,
+  waitForStore,
+} from '../src/barebone/testing';
+
+describe('testing utilities', () => {
+  interface TestCounter {
+    value: number;
+    label: string;
+  }
+
+  const initialState: TestCounter = { value: 0, label: '' };
+
+  const registry = new StoreRegistry();
+
+  const counterStore = createStore({
+    name: 'counter',
+    initialState,
+    registry,
+    actions: {
+      increment: (state) => ({ ...state, value: state.value + 1 }),
+      setLabel: (state, label: string) => ({ ...state, label }),
+    },
+    asyncActions: {
+      setValueAsync: async (getState, value: number) => ({
+        ...getState(),
+        value: await Promise.resolve(value),
+      }),
+    },
+  });
+
+  afterEach(() => {
+    // Hooks from the test are still mounted.
+    act(() => resetAllStores(registry));
+  });
+
+  it('Resets every store in the registry', () => {
+    counterStore.actions.increment();
+    const otherStore = createStore({
+      name: 'other',
+      initialState: 1,
+      registry,
+      actions: { double: (state) => state * 2 },
+    });
+    otherStore.actions.double();
+
+    resetAllStores(registry);
+    expect(counterStore.store.counter).toEqual(initialState);
+    expect(otherStore.store.other).toBe(1);
+  });
+
+  it('Merges a partial state into the store', () => {
+    setStoreState(counterStore, { label: 'label' });
+    expect(counterStore.store.counter).toEqual({ value: 0, label: 'label' });
+
+    const { result } = renderHook(() =>
+      counterStore.useStore((store) => store.counter.value),
+    );
+    act(() => setStoreState(counterStore.stateStore, { value: 5 }));
+    expect(result.current).toBe(5);
+  });
+
+  it('Records the calls to the actions', async () => {
+    const spies = spyOnActions(counterStore);
+
+    counterStore.actions.setLabel('label');
+    await counterStore.asyncActions.setValueAsync(3);
+    expect(spies.actions.setLabel.calls).toEqual([['label']]);
+    expect(spies.actions.increment.calls).toEqual([]);
+    expect(spies.asyncActions.setValueAsync.calls).toEqual([[3]]);
+    expect(counterStore.store.counter).toEqual({ value: 3, label: 'label' });
+
+    spies.clear();
+    expect(spies.actions.setLabel.calls).toEqual([]);
+
+    spies.restore();
+    counterStore.actions.increment();
+    expect(spies.actions.increment.calls).toEqual([]);
+  });
+
+  it('Waits for the store to pass the predicate', async () => {
+    counterStore.asyncActions.setValueAsync(10);
+    const state = await waitForStore(
+      counterStore,
+      (state) => state.value === 10,
+    );
+    expect(state.value).toBe(10);
+  });
+
+  it('Rejects when the store never passes the predicate', async () => {
+    await expect(
+      waitForStore(counterStore, (state) => state.value < 0, { timeout: 10 }),
+    ).rejects.toThrow('Timed out after 10ms waiting for the store "counter".');
+  });
+
+  it('Counts the renders of a hook', () => {
+    const counter = countRenders(() =>
+      counterStore.useStore((store) => store.counter.value),
+    );
+    renderHook(counter.useHook);
+    expect(counter.renders).toBe(1);
+
+    act(() => counterStore.actions.setLabel('label'));
+    expect(counter.renders).toBe(1);
+
+    act(() => counterStore.actions.increment());
+    expect(counter.renders).toBe(2);
+
+    counter.reset();
+    expect(counter.renders).toBe(0);
+  });
+});
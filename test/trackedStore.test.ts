@@ -0,0 +1,145 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { createStore } from '../src/barebone';
+import { countRenders } from '../src/barebone/testing';
+
+describe('useTrackedStore()', () => {
+  interface TestTodos {
+    title: string;
+    count: number;
+    todos: { text: string; done: boolean }[];
+    filters?: Record<string, boolean>;
+  }
+
+  const initialState: TestTodos = {
+    title: '',
+    count: 0,
+    todos: [{ text: 'first', done: false }],
+  };
+
+  const createTestStore = () =>
+    createStore({
+      name: 'todos',
+      initialState,
+      actions: {
+        setTitle: (state, title: string) => ({ ...state, title }),
+        increment: (state) => ({ ...state, count: state.count + 1 }),
+        toggle: (state, index: number) => ({
+          ...state,
+          todos: state.todos.map((todo, i) =>
+            i === index ? { ...todo, done: !todo.done } : todo,
+          ),
+        }),
+        addTodo: (state, text: string) => ({
+          ...state,
+          todos: [...state.todos, { text, done: false }],
+        }),
+        setFilters: (state, filters: Record<string, boolean>) => ({
+          ...state,
+          filters,
+        }),
+      },
+    });
+
+  it('Returns the state of the store', () => {
+    const { useTrackedStore } = createTestStore();
+    const { result } = renderHook(() => useTrackedStore().todos.title);
+    expect(result.current).toBe('');
+  });
+
+  it("Doesn't render when sibling properties change", () => {
+    const { useTrackedStore, actions } = createTestStore();
+    const counter = countRenders(() => useTrackedStore().todos.count);
+    const { result } = renderHook(counter.useHook);
+
+    act(() => {
+      actions.setTitle('title');
+      actions.toggle(0);
+      actions.addTodo('second');
+    });
+    expect(counter.renders).toBe(1);
+
+    act(() => actions.increment());
+    expect(counter.renders).toBe(2);
+    expect(result.current).toBe(1);
+  });
+
+  it('Tracks nested properties and array items', () => {
+    const { useTrackedStore, actions } = createTestStore();
+    const counter = countRenders(() => useTrackedStore().todos.todos[0].done);
+    const { result } = renderHook(counter.useHook);
+
+    act(() => actions.addTodo('second'));
+    expect(counter.renders).toBe(1);
+
+    act(() => actions.toggle(0));
+    expect(counter.renders).toBe(2);
+    expect(result.current).toBe(true);
+  });
+
+  it('Renders when the length of an iterated array changes', () => {
+    const { useTrackedStore, actions } = createTestStore();
+    const counter = countRenders(() =>
+      useTrackedStore().todos.todos.map((todo) => todo.text),
+    );
+    const { result } = renderHook(counter.useHook);
+
+    act(() => actions.toggle(0));
+    expect(counter.renders).toBe(1);
+
+    act(() => actions.addTodo('second'));
+    expect(counter.renders).toBe(2);
+    expect(result.current).toEqual(['first', 'second']);
+  });
+
+  it('Renders when the keys of a listed object change', () => {
+    const { useTrackedStore, actions } = createTestStore();
+    actions.setFilters({ done: true });
+    const counter = countRenders(() =>
+      Object.keys(useTrackedStore().todos.filters ?? {}),
+    );
+    const { result } = renderHook(counter.useHook);
+
+    act(() => actions.setFilters({ done: true, open: false }));
+    expect(counter.renders).toBe(2);
+    expect(result.current).toEqual(['done', 'open']);
+  });
+
+  it('Uses the properties read during the latest render', () => {
+    const { useTrackedStore, actions } = createTestStore();
+    const counter = countRenders((showTitle: boolean) => {
+      const store = useTrackedStore();
+      return showTitle ? store.todos.title : store.todos.count;
+    });
+    const { result, rerender } = renderHook(counter.useHook, {
+      initialProps: false,
+    });
+
+    act(() => actions.setTitle('title'));
+    expect(counter.renders).toBe(1);
+
+    rerender(true);
+    expect(result.current).toBe('title');
+
+    act(() => actions.increment());
+    expect(counter.renders).toBe(2);
+
+    act(() => actions.setTitle('new title'));
+    expect(counter.renders).toBe(3);
+    expect(result.current).toBe('new title');
+  });
+
+  it('Returns the same proxy while the state is unchanged', () => {
+    const { useTrackedStore, actions } = createTestStore();
+    const { result, rerender } = renderHook(() => useTrackedStore().todos);
+    const first = result.current;
+
+    rerender();
+    expect(result.current).toBe(first);
+
+    act(() => actions.increment());
+    expect(result.current).not.toBe(first);
+  });
+});
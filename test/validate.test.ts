@@ -0,0 +1,220 @@
+import { createStore, schema, StateValidationError } from '../src/barebone';
+import type { InvalidStateHandler, StateValidator } from '../src/barebone';
+
+describe('state validation', () => {
+  interface TestCounter {
+    count: number;
+    label?: string;
+  }
+
+  const initialState: TestCounter = { count: 0 };
+  const name = 'test';
+
+  const counterSchema = schema.object({
+    count: schema.number(),
+    label: schema.optional(schema.string()),
+  });
+
+  const createTestStore = (
+    validate: StateValidator<TestCounter> = counterSchema,
+    onInvalidState?: InvalidStateHandler,
+  ) =>
+    createStore({
+      name,
+      initialState,
+      actions: {
+        setCount: (state, count: number) => ({ ...state, count }),
+        setLabel: (state, label: unknown) =>
+          ({ ...state, label }) as TestCounter,
+        clear: () => undefined as unknown as TestCounter,
+        mutate: (state) => {
+          state.count++;
+          return state;
+        },
+      },
+      asyncActions: {
+        setCountAsync: async (getState, count: number) => ({
+          ...getState(),
+          count,
+        }),
+      },
+      validate,
+      onInvalidState,
+    });
+
+  it('Commits valid states', () => {
+    const { actions, store } = createTestStore();
+    actions.setCount(1);
+    actions.setLabel('label');
+    expect(store[name]).toEqual({ count: 1, label: 'label' });
+  });
+
+  it('Throws a descriptive error and skips invalid states', () => {
+    const { actions, store } = createTestStore();
+
+    expect(() => actions.setLabel(1)).toThrow(
+      'Invalid state from action "setLabel" with payload [1]: ' +
+        'state.label: expected a string, received a number',
+    );
+    expect(() => actions.clear()).toThrow(StateValidationError);
+    expect(store[name]).toEqual(initialState);
+  });
+
+  it('Includes details about the update in the error', () => {
+    const { actions } = createTestStore();
+    try {
+      actions.setLabel(null);
+    } catch (error) {
+      expect(error).toBeInstanceOf(StateValidationError);
+      expect(error).toMatchObject({
+        actionName: 'setLabel',
+        payload: [null],
+        state: { count: 0, label: null },
+        problems: ['state.label: expected a string, received null'],
+      });
+    }
+    expect.assertions(2);
+  });
+
+  it('Rejects async actions that return invalid states', async () => {
+    const { asyncActions, getActionStatus, store } = createTestStore(
+      (state) => state.count >= 0 || 'count must not be negative',
+    );
+
+    await expect(asyncActions.setCountAsync(-1)).rejects.toThrow(
+      'Invalid state from action "setCountAsync" with payload [-1]: ' +
+        'count must not be negative',
+    );
+    expect(getActionStatus('setCountAsync').status).toBe('error');
+    expect(store[name]).toEqual(initialState);
+  });
+
+  it('Accepts functions that return false or throw', () => {
+    const returnsFalse = createTestStore((state) => state.count < 10);
+    expect(() => returnsFalse.actions.setCount(10)).toThrow(
+      'state failed validation',
+    );
+
+    const throws = createTestStore((state) => {
+      if (!state) throw new Error('state is missing');
+    });
+    expect(() => throws.actions.clear()).toThrow('state is missing');
+  });
+
+  it('Logs invalid states using warn', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { actions, store } = createTestStore(counterSchema, 'warn');
+
+    actions.setLabel(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid state from action "setLabel"'),
+    );
+    expect(store[name]).toEqual(initialState);
+    warn.mockRestore();
+  });
+
+  it('Skips invalid states silently using ignore', () => {
+    const warn = jest.spyOn(console, 'warn');
+    const { actions, store } = createTestStore(counterSchema, 'ignore');
+
+    expect(() => actions.setLabel(1)).not.toThrow();
+    expect(warn).not.toHaveBeenCalled();
+    expect(store[name]).toEqual(initialState);
+    warn.mockRestore();
+  });
+
+  it('Passes invalid states to a handler', () => {
+    const onInvalidState = jest.fn();
+    const { actions, store } = createTestStore(counterSchema, onInvalidState);
+
+    actions.setCount(Number.NaN);
+    actions.setLabel(1);
+    expect(onInvalidState).toHaveBeenCalledTimes(1);
+    expect(onInvalidState.mock.calls[0][0]).toBeInstanceOf(
+      StateValidationError,
+    );
+    expect(store[name]).toEqual({ count: Number.NaN });
+  });
+
+  it('Checks the state after it went through the middleware', () => {
+    const { actions, store } = createStore({
+      name,
+      initialState,
+      actions: {
+        setCount: (state, count: number) => ({ ...state, count }),
+      },
+      middleware: [
+        (context, next) =>
+          next({
+            ...context.nextState,
+            count: 'invalid' as unknown as number,
+          }),
+      ],
+      validate: counterSchema,
+    });
+
+    expect(() => actions.setCount(1)).toThrow(
+      'state.count: expected a number, received a string',
+    );
+    expect(store[name]).toEqual(initialState);
+  });
+
+  describe('freeze', () => {
+    it('Throws when an action mutates the state', () => {
+      const { actions, store } = createTestStore();
+      actions.setCount(1);
+
+      expect(Object.isFrozen(store[name])).toBe(true);
+      expect(() => actions.mutate()).toThrow(TypeError);
+      expect(store[name].count).toBe(1);
+    });
+
+    it("Doesn't freeze the state when disabled", () => {
+      const { actions, store } = createStore({
+        name,
+        initialState: { count: 0 },
+        freeze: false,
+        actions: { setCount: (state, count: number) => ({ ...state, count }) },
+      });
+      actions.setCount(1);
+      expect(Object.isFrozen(store[name])).toBe(false);
+    });
+  });
+
+  describe('schema', () => {
+    it('Describes every problem with its path', () => {
+      const todos = schema.object({
+        todos: schema.array(
+          schema.object({
+            title: schema.string(),
+            done: schema.boolean(),
+            status: schema.union(
+              schema.literal('open'),
+              schema.literal('closed'),
+            ),
+          }),
+        ),
+        tags: schema.record(schema.nullable(schema.string())),
+        meta: schema.any(),
+      });
+
+      expect(
+        todos.check({
+          todos: [
+            { title: 'a', done: false, status: 'open' },
+            { title: 1, done: 'no', status: 'other' },
+          ],
+          tags: { a: null, b: 'b', c: 1 },
+        }),
+      ).toEqual([
+        'state.todos[1].title: expected a string, received a number',
+        'state.todos[1].done: expected a boolean, received a string',
+        "state.todos[1].status: received a string which doesn't match any schema",
+        'state.tags.c: expected a string, received a number',
+      ]);
+      expect(todos.check([])).toEqual([
+        'state: expected an object, received an array',
+      ]);
+    });
+  });
+});